@@ -1,11 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { UploadZone } from './components/UploadZone';
 import { ProcessingStatus } from './components/ProcessingStatus';
-import { ProcessingState, ProcessingStep, UploadedFile, GeneratedPage } from './types';
-import { transcribeMathProblem, solveMathProblem, generateHandwrittenPage, setApiKey, validateSolution } from './services/geminiService';
+import { ReviewPanel, ReviewRequest } from './components/ReviewPanel';
+import { PageCard } from './components/PageCard';
+import { HistoryView } from './components/HistoryView';
+import { CacheView } from './components/CacheView';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { CropEditor } from './components/CropEditor';
+import { ExportMenu } from './components/ExportMenu';
+import { VerificationPanel } from './components/VerificationPanel';
+import { CostPanel } from './components/CostPanel';
+import { StyleProfilesView } from './components/StyleProfilesView';
+import { LayoutPanel } from './components/LayoutPanel';
+import { ProcessingState, ProcessingStep, UploadedFile, GeneratedPage, SolveRun, AppSettings, ChatTurn, StyleProfile, PageLayoutOptions, CallUsage } from './types';
+import { setApiKey } from './services/geminiService';
+import { transcribeMathProblem, solveMathProblem, generateHandwrittenPage, validateSolution, readPageText, chatAboutSolution, getModelProvider } from './services/modelProvider';
+import { runPipeline, toProcessingState, createPipelineControl, PipelineControl, regeneratePage, checkPageFidelity, renderSolutionPages } from './services/pipeline';
 import { generatePDF } from './services/pdfService';
+import { downloadBlob, resolveExportBaseName, resolvePdfFileName } from './services/exportService';
+import { saveRun, toStoredFile, fromStoredFile, createRunId } from './services/historyService';
+import { loadSettings } from './services/settingsService';
+import { isPdfFile } from './services/pdfImportService';
+import { applyStyleProfile, buildReferenceSheet, listProfiles } from './services/styleProfileService';
+import { DEFAULT_PAGE_LAYOUT, fullPageText } from './services/pageLayout';
+import { describeStepModels } from './services/modelChain';
+import { addToCostReport, EMPTY_COST_REPORT, getMonthlySpend, spendingCapMessage } from './services/costService';
 import { Download, RefreshCcw, Key, Zap, ChevronRight } from 'lucide-react';
 
+type AppView = 'workspace' | 'history' | 'settings' | 'chat' | 'batch' | 'profiles' | 'cache';
+
 const App: React.FC = () => {
   const [isKeySelected, setIsKeySelected] = useState<boolean>(false);
   const [showManualEntry, setShowManualEntry] = useState<boolean>(false);
@@ -20,7 +45,32 @@ const App: React.FC = () => {
     progress: 0
   });
   const [generatedPages, setGeneratedPages] = useState<GeneratedPage[]>([]);
+  const [busyPages, setBusyPages] = useState<number[]>([]);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const pipelineControlRef = useRef<PipelineControl | null>(null);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [pendingReview, setPendingReview] = useState<ReviewRequest | null>(null);
+  const reviewResolverRef = useRef<((value: string | string[]) => void) | null>(null);
+  const [activeView, setActiveView] = useState<AppView>('workspace');
+  const [currentRun, setCurrentRun] = useState<SolveRun | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [chatSending, setChatSending] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [isApplyingRevision, setIsApplyingRevision] = useState(false);
   const [terminalCursor, setTerminalCursor] = useState(true);
+  // A question-sheet PDF being cropped, and where the crops should go
+  const [cropSource, setCropSource] = useState<{ file: File; target: 'workspace' | 'batch' } | null>(null);
+  const [batchInbox, setBatchInbox] = useState<File[]>([]);
+  const [profiles, setProfiles] = useState<StyleProfile[]>([]);
+  // The profile the current handwriting reference was built from, if any
+  const [activeProfile, setActiveProfile] = useState<StyleProfile | null>(null);
+  // Paper, header and numbering for the next run; a finished run keeps its own copy
+  const [runLayout, setRunLayout] = useState<PageLayoutOptions>(DEFAULT_PAGE_LAYOUT);
+
+  // Settings as seen by generation: the active profile's look overrides the renderer style
+  const generationSettings = applyStyleProfile(settings, activeProfile);
+  const capMessage = spendingCapMessage(generationSettings);
 
   // Blinking cursor effect
   useEffect(() => {
@@ -28,9 +78,30 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Keep the current run in sync with per-page edits (regenerate/delete)
+  useEffect(() => {
+    if (!currentRun || currentRun.pages === generatedPages || generatedPages.length === 0) return;
+    setCurrentRun({ ...currentRun, pages: generatedPages, updatedAt: Date.now() });
+  }, [generatedPages, currentRun]);
+
+  // Every change to the current run (new result, page edits, chat turns) is written to history
+  useEffect(() => {
+    if (!currentRun) return;
+    saveRun(currentRun).catch(e => console.error("History save error", e));
+  }, [currentRun]);
+
+  useEffect(() => {
+    listProfiles().then(setProfiles).catch(e => console.error("Profile load error", e));
+  }, []);
+
   // Check for API key on mount
   useEffect(() => {
     const checkKey = async () => {
+      // Offline providers (e.g. ?provider=mock) don't need a key at all
+      if (!getModelProvider().requiresApiKey) {
+        setIsKeySelected(true);
+        return;
+      }
       if ((window as any).aistudio) {
         setHasAiStudio(true);
         const hasKey = await (window as any).aistudio.hasSelectedApiKey();
@@ -59,147 +130,337 @@ const App: React.FC = () => {
   };
 
   const handleFileSelect = (file: File, type: 'question' | 'handwriting') => {
+    if (type === 'question' && isPdfFile(file)) {
+      setCropSource({ file, target: 'workspace' });
+      return;
+    }
     const previewUrl = URL.createObjectURL(file);
     if (type === 'question') {
       setQuestionImage({ file, previewUrl });
     } else {
       setHandwritingImage({ file, previewUrl });
+      setActiveProfile(null);
     }
   };
 
+  const clearHandwriting = () => {
+    setHandwritingImage(null);
+    setActiveProfile(null);
+  };
+
+  // A profile stands in for an uploaded photo: its samples become the reference image
+  const handleUseProfile = async (profile: StyleProfile) => {
+    const file = await buildReferenceSheet(profile);
+    if (handwritingImage) URL.revokeObjectURL(handwritingImage.previewUrl);
+    setHandwritingImage({ file, previewUrl: URL.createObjectURL(file) });
+    setActiveProfile(profile);
+  };
+
+  const handleProfilesChanged = (all: StyleProfile[]) => {
+    setProfiles(all);
+    if (!activeProfile) return;
+    const current = all.find(p => p.id === activeProfile.id);
+    if (!current) {
+      setActiveProfile(null);
+    } else if (current.updatedAt !== activeProfile.updatedAt) {
+      handleUseProfile(current).catch(e => console.error("Profile reference rebuild error", e));
+    }
+  };
+
+  // A single crop from the workspace replaces the question; anything more becomes a batch
+  const handleCropsConfirmed = (crops: File[]) => {
+    const target = cropSource?.target;
+    setCropSource(null);
+    if (target === 'workspace' && crops.length === 1) {
+      handleFileSelect(crops[0], 'question');
+      return;
+    }
+    setBatchInbox(prev => [...prev, ...crops]);
+    setActiveView('batch');
+  };
+
   const clearFiles = () => {
     if (questionImage) URL.revokeObjectURL(questionImage.previewUrl);
     if (handwritingImage) URL.revokeObjectURL(handwritingImage.previewUrl);
     setQuestionImage(null);
     setHandwritingImage(null);
+    setActiveProfile(null);
     setGeneratedPages([]);
+    setPageError(null);
+    setCurrentRun(null);
     setProcessingState({ step: ProcessingStep.IDLE, message: '', progress: 0 });
   };
 
+  // Parks the pipeline until the ReviewPanel hands back edited content (or the run is cancelled)
+  const awaitReview = <T extends string | string[]>(request: ReviewRequest, signal: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        setPendingReview(null);
+        reviewResolverRef.current = null;
+      };
+      setPendingReview(request);
+      reviewResolverRef.current = (value) => {
+        settle();
+        resolve(value as T);
+      };
+      signal.addEventListener('abort', () => {
+        settle();
+        reject(signal.reason);
+      }, { once: true });
+    });
+
   const handleProcess = async () => {
     if (!questionImage || !handwritingImage) return;
 
-    let attempts = 0;
-    const MAX_ATTEMPTS = 3;
-    let success = false;
+    // The workspace shows the cap message; raising the cap in Settings lets the run start
+    if (spendingCapMessage(generationSettings)) return;
 
     // Clear previous results
     setGeneratedPages([]);
+    setPageError(null);
+    setCurrentRun(null);
+    setIsPaused(false);
+    const startedAt = Date.now();
+
+    const control = createPipelineControl();
+    pipelineControlRef.current = control;
+
+    const result = await runPipeline(
+      { questionFile: questionImage.file, handwritingFile: handwritingImage.file },
+      { transcribeMathProblem, solveMathProblem, generateHandwrittenPage, validateSolution, readPageText },
+      {
+        onEvent: (event) => {
+          const nextState = toProcessingState(event);
+          if (nextState) setProcessingState(nextState);
+        },
+        settings: generationSettings,
+        layout: runLayout,
+        control,
+        review: reviewMode ? {
+          transcription: (problemText) =>
+            awaitReview<string>({ kind: 'transcription', problemText }, control.signal),
+          solution: (problemText, pages) =>
+            awaitReview<string[]>({ kind: 'solution', problemText, pages }, control.signal)
+        } : undefined
+      }
+    );
 
-    while (attempts < MAX_ATTEMPTS && !success) {
-      attempts++;
-      try {
-        // 1. Transcribe
-        setProcessingState({
-          step: ProcessingStep.ANALYZING,
-          message: `Reading problem (Attempt ${attempts})...`,
-          progress: 10
-        });
-        const problemText = await transcribeMathProblem(questionImage.file);
-
-        // 2. Solve
-        setProcessingState({
-          step: ProcessingStep.SOLVING,
-          message: 'Solving problem step-by-step...',
-          progress: 30
-        });
-        const solutionSteps = await solveMathProblem(problemText);
-
-        if (solutionSteps.length === 0) {
-           if (attempts === MAX_ATTEMPTS) throw new Error("Could not solve the problem.");
-           continue; // Retry
-        }
-
-        // 3. Generate Pages
-        const currentPages: GeneratedPage[] = [];
-        const totalSteps = solutionSteps.length;
-        
-        for (let i = 0; i < totalSteps; i++) {
-          setProcessingState({
-            step: ProcessingStep.GENERATING_PAGES,
-            message: `Writing page ${i + 1}/${totalSteps}...`,
-            progress: 40 + ((i / totalSteps) * 40)
-          });
-
-          const imageUrl = await generateHandwrittenPage(
-            handwritingImage.file,
-            solutionSteps[i],
-            i
-          );
-          currentPages.push({ imageUrl, pageNumber: i + 1 });
-        }
-
-        // 4. Validate
-        setProcessingState({
-          step: ProcessingStep.VALIDATING,
-          message: 'Verifying solution quality...',
-          progress: 90
-        });
-        
-        const validation = await validateSolution(questionImage.file, currentPages.map(p => p.imageUrl));
-
-        if (validation.valid) {
-          success = true;
-          setGeneratedPages(currentPages);
-          setProcessingState({
-            step: ProcessingStep.COMPLETED,
-            message: 'Sequence Complete. Output Verified.',
-            progress: 100
-          });
-        } else {
-          console.warn(`Attempt ${attempts} failed validation: ${validation.reason}`);
-          if (attempts === MAX_ATTEMPTS) {
-            throw new Error(`Validation failed: ${validation.reason || 'Output illegible'}`);
-          }
-          // Loop continues to retry
-        }
-
-      } catch (error: any) {
-        console.error("Processing Error:", error);
-        const errString = JSON.stringify(error);
-        const errMessage = error?.message || '';
-
-        // If permission error, stop immediately
-        if (
-          errString.includes("403") || 
-          errString.includes("PERMISSION_DENIED") || 
-          errMessage.includes("403") ||
-          errMessage.includes("permission")
-        ) {
-          setIsKeySelected(false);
-          setProcessingState({
-            step: ProcessingStep.ERROR,
-            message: 'ACCESS DENIED: API Key invalid.',
-            progress: 0
-          });
-          return;
-        }
-
-        // Only show error state if we are out of attempts
-        if (attempts === MAX_ATTEMPTS) {
-          setProcessingState({
-            step: ProcessingStep.ERROR,
-            message: 'SYSTEM FAILURE: ' + (errMessage || 'Unknown error.'),
-            progress: 0
-          });
-        }
+    if (pipelineControlRef.current === control) pipelineControlRef.current = null;
+
+    if (result.status === 'success') {
+      const run: SolveRun = {
+        id: createRunId(),
+        createdAt: startedAt,
+        completedAt: Date.now(),
+        updatedAt: Date.now(),
+        questionImage: toStoredFile(questionImage.file),
+        handwritingImage: toStoredFile(handwritingImage.file),
+        transcription: result.problemText,
+        solution: result.solution,
+        verification: result.verification,
+        solutionPages: result.solutionPages,
+        pages: result.pages,
+        layout: runLayout,
+        models: result.models,
+        cost: result.cost,
+        validationReason: result.validation.reason
+      };
+      setGeneratedPages(result.pages);
+      setCurrentRun(run);
+    } else if (result.status === 'failed' && result.kind === 'auth') {
+      setIsKeySelected(false);
+    }
+  };
+
+  // Uploaded files stay loaded; the pipeline event moves the UI back to IDLE
+  const handleCancel = () => {
+    pipelineControlRef.current?.cancel();
+    setIsPaused(false);
+  };
+
+  const handleTogglePause = () => {
+    const control = pipelineControlRef.current;
+    if (!control) return;
+    if (control.isPaused()) {
+      control.resume();
+      setIsPaused(false);
+    } else {
+      control.pause();
+      setIsPaused(true);
+    }
+  };
+
+  // Calls made for a finished run (regenerated pages, revisions, chat) are added to its cost report
+  const trackRunUsage = (runId: string | undefined) => (usage: CallUsage) =>
+    setCurrentRun(prev =>
+      prev && prev.id === runId
+        ? { ...prev, cost: addToCostReport(prev.cost ?? EMPTY_COST_REPORT, usage, generationSettings.pricing) }
+        : prev
+    );
+
+  const handleRegeneratePage = async (page: GeneratedPage, sourceText?: string) => {
+    if (!handwritingImage) return;
+    setPageError(null);
+    setBusyPages(prev => [...prev, page.pageNumber]);
+    // Keep the run's own layout so the new page matches the rest
+    const callOptions = {
+      settings: generationSettings,
+      layout: currentRun?.layout ?? runLayout,
+      onUsage: trackRunUsage(currentRun?.id)
+    };
+    try {
+      const regenerated = await regeneratePage(page, handwritingImage.file, { generateHandwrittenPage }, sourceText, callOptions);
+      // A failed read-back shouldn't throw away the new image; the page just has no score
+      const updated = await checkPageFidelity(regenerated, { readPageText }, callOptions).catch(() => regenerated);
+      setGeneratedPages(prev => prev.map(p => (p.pageNumber === page.pageNumber ? updated : p)));
+    } catch (error: any) {
+      console.error(`Error regenerating page ${page.pageNumber}:`, error);
+      setPageError(`PAGE_${page.pageNumber} FAILED: ${error?.message || 'Unknown error.'}`);
+    } finally {
+      setBusyPages(prev => prev.filter(n => n !== page.pageNumber));
+    }
+  };
+
+  // Page numbers double as identifiers, so deletion is blocked while any page is regenerating
+  const handleDeletePage = async (page: GeneratedPage) => {
+    if (busyPages.length > 0) return;
+    const layout = currentRun?.layout ?? runLayout;
+    const remaining = generatedPages
+      .filter(p => p.pageNumber !== page.pageNumber)
+      .map((p, idx) => ({ ...p, pageNumber: idx + 1 }));
+    setGeneratedPages(remaining);
+    // The header and page number are drawn into each image, so pages that moved up are
+    // redrawn wherever what their new place shows differs from the old one
+    const moved = remaining.filter(p =>
+      p.pageNumber >= page.pageNumber && fullPageText(layout, p.pageNumber, '') !== fullPageText(layout, p.pageNumber - 1, '')
+    );
+    await Promise.all(moved.map(p => handleRegeneratePage(p)));
+  };
+
+  // Loads a stored run's uploads back into the workspace
+  const loadRunFiles = (run: SolveRun) => {
+    if (questionImage) URL.revokeObjectURL(questionImage.previewUrl);
+    if (handwritingImage) URL.revokeObjectURL(handwritingImage.previewUrl);
+    const questionFile = fromStoredFile(run.questionImage);
+    const handwritingFile = fromStoredFile(run.handwritingImage);
+    setQuestionImage({ file: questionFile, previewUrl: URL.createObjectURL(questionFile) });
+    setHandwritingImage({ file: handwritingFile, previewUrl: URL.createObjectURL(handwritingFile) });
+    setActiveProfile(null);
+    setRunLayout(run.layout ?? DEFAULT_PAGE_LAYOUT);
+    setPageError(null);
+    setActiveView('workspace');
+  };
+
+  const handleReopenRun = (run: SolveRun) => {
+    loadRunFiles(run);
+    // Runs saved before pages had ids get them here
+    setGeneratedPages(run.pages.map(page => (page.id ? page : { ...page, id: createRunId() })));
+    setCurrentRun(run);
+    setProcessingState({ step: ProcessingStep.COMPLETED, message: 'Run restored from history.', progress: 100 });
+  };
+
+  const handleDuplicateRun = (run: SolveRun) => {
+    loadRunFiles(run);
+    setGeneratedPages([]);
+    setCurrentRun(null);
+    setProcessingState({ step: ProcessingStep.IDLE, message: '', progress: 0 });
+  };
+
+  const appendChatTurn = (runId: string, turn: ChatTurn) => {
+    setCurrentRun(prev =>
+      prev && prev.id === runId
+        ? { ...prev, chat: [...(prev.chat ?? []), turn], updatedAt: Date.now() }
+        : prev
+    );
+  };
+
+  const handleSendChat = async (message: string) => {
+    if (!currentRun) return;
+    const runId = currentRun.id;
+    const history = currentRun.chat ?? [];
+    setChatError(null);
+    setChatSending(true);
+    appendChatTurn(runId, { role: 'user', text: message, timestamp: Date.now() });
+    try {
+      const reply = await chatAboutSolution(
+        { transcription: currentRun.transcription, solutionPages: currentRun.solutionPages },
+        history,
+        message,
+        { settings: generationSettings, onUsage: trackRunUsage(runId) }
+      );
+      appendChatTurn(runId, { role: 'model', text: reply.text, timestamp: Date.now(), revisedPages: reply.revisedPages });
+    } catch (error: any) {
+      console.error("Chat error:", error);
+      setChatError('CHAT FAILURE: ' + (error?.message || 'Unknown error.'));
+    } finally {
+      setChatSending(false);
+    }
+  };
+
+  // Sends a revised answer from the chat straight into page generation, skipping transcribe/solve
+  const handleApplyRevision = async (solutionPages: string[]) => {
+    if (!currentRun || !handwritingImage) return;
+    const runId = currentRun.id;
+    const previousPages = generatedPages;
+    const control = createPipelineControl();
+    pipelineControlRef.current = control;
+    setIsApplyingRevision(true);
+    setPageError(null);
+    setActiveView('workspace');
+
+    try {
+      const pages = await renderSolutionPages(solutionPages, handwritingImage.file, { generateHandwrittenPage }, {
+        callOptions: {
+          settings: generationSettings,
+          signal: control.signal,
+          layout: currentRun.layout ?? runLayout,
+          onUsage: trackRunUsage(runId)
+        },
+        onEvent: (event) => {
+          const nextState = toProcessingState(event);
+          if (nextState) setProcessingState(nextState);
+        },
+        checkpoint: control.checkpoint
+      });
+      setGeneratedPages(pages);
+      setCurrentRun(prev =>
+        prev && prev.id === runId
+          // The chat revision is free text, so the structured solution and its check no longer apply
+          ? { ...prev, solution: undefined, verification: undefined, models: prev.models && { ...prev.models, solver: undefined }, solutionPages, pages, updatedAt: Date.now() }
+          : prev
+      );
+      setProcessingState({ step: ProcessingStep.COMPLETED, message: 'Revised answer written.', progress: 100 });
+    } catch (error: any) {
+      if (!control.signal.aborted) {
+        console.error("Revision render error:", error);
+        setPageError('REVISION FAILED: ' + (error?.message || 'Unknown error.'));
       }
+      // Keep the previous pages on screen
+      setGeneratedPages(previousPages);
+      setProcessingState({ step: ProcessingStep.COMPLETED, message: 'Revision discarded.', progress: 100 });
+    } finally {
+      if (pipelineControlRef.current === control) pipelineControlRef.current = null;
+      setIsApplyingRevision(false);
     }
   };
 
-  const handleDownloadPDF = () => {
-    if (generatedPages.length === 0) return;
-    const blob = generatePDF(generatedPages.map(p => p.imageUrl));
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'MathSolution.pdf';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const downloadPages = async (pages: GeneratedPage[], problemText?: string) => {
+    if (pages.length === 0) return;
+    const options = settings.pdfExport;
+    try {
+      const blob = await generatePDF(pages.map(p => p.imageUrl), options, {
+        problemText,
+        pageTexts: pages.map(p => p.sourceText)
+      });
+      downloadBlob(blob, resolvePdfFileName(options.fileName, problemText));
+    } catch (e: any) {
+      console.error("PDF export error", e);
+      setPageError('PDF EXPORT FAILED: ' + (e?.message || 'Unknown error.'));
+    }
   };
 
+  const handleDownloadPDF = () => downloadPages(generatedPages, currentRun?.transcription);
+
   // --- LANDING (Key Selection) ---
   if (!isKeySelected) {
     return (
@@ -273,11 +534,49 @@ const App: React.FC = () => {
       
       {/* Sidebar */}
       <div className="w-16 bg-black text-white flex flex-col items-center py-8 gap-20 select-none relative z-20 border-r-4 border-white/10">
-        <div className="flex-1 flex flex-col items-center justify-center gap-24">
-          <div className="text-vertical tracking-widest text-gray-500 hover:text-white cursor-pointer transition-colors text-lg">HISTORY</div>
-          <div className="text-vertical tracking-widest text-[#ccff00] font-bold text-lg shadow-[0_0_10px_#ccff00]">NEW_PROBLEM</div>
-          <div className="text-vertical tracking-widest text-gray-500 hover:text-white cursor-pointer transition-colors text-lg">SETTINGS</div>
-          <div className="text-vertical tracking-widest text-gray-500 hover:text-white cursor-pointer transition-colors text-lg">CHAT_LOG</div>
+        <div className="flex-1 flex flex-col items-center justify-center gap-16">
+          <div
+            onClick={() => setActiveView('history')}
+            className={`text-vertical tracking-widest text-lg cursor-pointer transition-colors ${activeView === 'history' ? 'text-[#ccff00] font-bold shadow-[0_0_10px_#ccff00]' : 'text-gray-500 hover:text-white'}`}
+          >
+            HISTORY
+          </div>
+          <div
+            onClick={() => setActiveView('workspace')}
+            className={`text-vertical tracking-widest text-lg cursor-pointer transition-colors ${activeView === 'workspace' ? 'text-[#ccff00] font-bold shadow-[0_0_10px_#ccff00]' : 'text-gray-500 hover:text-white'}`}
+          >
+            NEW_PROBLEM
+          </div>
+          <div
+            onClick={() => setActiveView('settings')}
+            className={`text-vertical tracking-widest text-lg cursor-pointer transition-colors ${activeView === 'settings' ? 'text-[#ccff00] font-bold shadow-[0_0_10px_#ccff00]' : 'text-gray-500 hover:text-white'}`}
+          >
+            SETTINGS
+          </div>
+          <div
+            onClick={() => setActiveView('chat')}
+            className={`text-vertical tracking-widest text-lg cursor-pointer transition-colors ${activeView === 'chat' ? 'text-[#ccff00] font-bold shadow-[0_0_10px_#ccff00]' : 'text-gray-500 hover:text-white'}`}
+          >
+            CHAT_LOG
+          </div>
+          <div
+            onClick={() => setActiveView('profiles')}
+            className={`text-vertical tracking-widest text-lg cursor-pointer transition-colors ${activeView === 'profiles' ? 'text-[#ccff00] font-bold shadow-[0_0_10px_#ccff00]' : 'text-gray-500 hover:text-white'}`}
+          >
+            PROFILES
+          </div>
+          <div
+            onClick={() => setActiveView('batch')}
+            className={`text-vertical tracking-widest text-lg cursor-pointer transition-colors ${activeView === 'batch' ? 'text-[#ccff00] font-bold shadow-[0_0_10px_#ccff00]' : 'text-gray-500 hover:text-white'}`}
+          >
+            BATCH
+          </div>
+          <div
+            onClick={() => setActiveView('cache')}
+            className={`text-vertical tracking-widest text-lg cursor-pointer transition-colors ${activeView === 'cache' ? 'text-[#ccff00] font-bold shadow-[0_0_10px_#ccff00]' : 'text-gray-500 hover:text-white'}`}
+          >
+            CACHE
+          </div>
         </div>
       </div>
 
@@ -299,7 +598,48 @@ const App: React.FC = () => {
           <div className="absolute top-10 left-10 w-24 h-24 bg-pink-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 pointer-events-none animate-pulse"></div>
           <div className="absolute bottom-20 right-20 w-32 h-32 bg-cyan-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 pointer-events-none"></div>
 
-          {processingState.step === ProcessingStep.IDLE ? (
+          {/* Batch stays mounted so a running queue survives switching views */}
+          <div className={activeView === 'batch' ? '' : 'hidden'}>
+            <BatchPanel
+              settings={generationSettings}
+              layout={runLayout}
+              handwritingImage={handwritingImage}
+              onHandwritingSelect={(f) => handleFileSelect(f, 'handwriting')}
+              onHandwritingClear={clearHandwriting}
+              onPdfSelect={(file) => setCropSource({ file, target: 'batch' })}
+              incomingFiles={batchInbox}
+              onIncomingConsumed={() => setBatchInbox([])}
+            />
+          </div>
+
+          {activeView === 'batch' ? null : activeView === 'chat' ? (
+            <ChatPanel
+              transcription={currentRun?.transcription ?? null}
+              turns={currentRun?.chat ?? []}
+              isSending={chatSending}
+              isApplying={isApplyingRevision}
+              error={chatError}
+              onSend={handleSendChat}
+              onApplyRevision={handleApplyRevision}
+            />
+          ) : activeView === 'settings' ? (
+            <SettingsPanel settings={settings} onChange={setSettings} />
+          ) : activeView === 'profiles' ? (
+            <StyleProfilesView
+              settings={settings}
+              activeProfileId={activeProfile?.id ?? null}
+              onUse={handleUseProfile}
+              onProfilesChanged={handleProfilesChanged}
+            />
+          ) : activeView === 'cache' ? (
+            <CacheView />
+          ) : activeView === 'history' ? (
+            <HistoryView
+              onReopen={handleReopenRun}
+              onDuplicate={handleDuplicateRun}
+              onDownload={(run) => downloadPages(run.pages, run.transcription)}
+            />
+          ) : processingState.step === ProcessingStep.IDLE ? (
             <div className="w-full h-full relative max-w-7xl mx-auto">
               {/* Top Right: User Question */}
               <div className="absolute top-0 right-0 md:right-10 w-full md:w-1/2 lg:w-5/12 z-20 transition-all duration-500">
@@ -311,6 +651,7 @@ const App: React.FC = () => {
                     previewUrl={questionImage?.previewUrl || null}
                     onFileSelect={(f) => handleFileSelect(f, 'question')}
                     onClear={() => setQuestionImage(null)}
+                    accept="image/*,application/pdf"
                     variant="retro-question"
                   />
                   {/* Speech Bubble Tail */}
@@ -332,23 +673,54 @@ const App: React.FC = () => {
                       file={handwritingImage?.file || null}
                       previewUrl={handwritingImage?.previewUrl || null}
                       onFileSelect={(f) => handleFileSelect(f, 'handwriting')}
-                      onClear={() => setHandwritingImage(null)}
+                      onClear={clearHandwriting}
                       variant="retro-handwriting"
                     />
                   </div>
+                  {profiles.length > 0 && (
+                    <select
+                      value={activeProfile?.id ?? ''}
+                      onChange={(e) => {
+                        const profile = profiles.find(p => p.id === e.target.value);
+                        if (profile) handleUseProfile(profile).catch(err => console.error("Profile reference error", err));
+                        else clearHandwriting();
+                      }}
+                      className="mt-3 w-full px-3 py-2 border-2 border-black bg-black text-[#ccff00] font-mono text-lg"
+                    >
+                      <option value="">-- OR USE A STYLE PROFILE --</option>
+                      {profiles.map(p => <option key={p.id} value={p.id}>PROFILE: {p.name}</option>)}
+                    </select>
+                  )}
                 </div>
               </div>
 
               {/* Execute Button */}
-              <div className="absolute bottom-10 right-0 md:right-10 z-30">
+              <div className="absolute bottom-10 right-0 md:right-10 z-30 flex flex-col items-end gap-3">
+                <LayoutPanel
+                  layout={runLayout}
+                  onChange={setRunLayout}
+                  defaultInkColor={generationSettings.localRenderer.inkColor}
+                />
+                <label className="flex items-center gap-2 bg-black text-[#ccff00] px-3 py-1 border-2 border-white text-lg cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={reviewMode}
+                    onChange={(e) => setReviewMode(e.target.checked)}
+                    className="accent-[#ccff00]"
+                  />
+                  REVIEW_BEFORE_WRITING
+                </label>
+                {capMessage && (
+                  <div className="max-w-sm bg-black text-red-500 px-3 py-1 border-2 border-red-500 font-bold">&gt; {capMessage}</div>
+                )}
                 <button
                   onClick={handleProcess}
-                  disabled={!questionImage || !handwritingImage}
+                  disabled={!questionImage || !handwritingImage || !!capMessage}
                   className={`
                     group relative px-8 py-3 font-black text-2xl uppercase tracking-widest
                     border-4 border-white shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]
                     flex items-center gap-3 transition-all active:translate-y-1 active:shadow-none
-                    ${(!questionImage || !handwritingImage) 
+                    ${(!questionImage || !handwritingImage || capMessage)
                       ? 'bg-gray-400 text-gray-600 cursor-not-allowed border-gray-500' 
                       : 'bg-[#d946ef] text-white hover:bg-[#c026d3] hover:scale-105'}
                   `}
@@ -359,13 +731,28 @@ const App: React.FC = () => {
             </div>
           ) : (
             <div className="w-full h-full flex flex-col items-center justify-start pt-10">
-              <ProcessingStatus status={processingState} />
+              <ProcessingStatus
+                status={processingState}
+                isPaused={isPaused}
+                onCancel={handleCancel}
+                onTogglePause={handleTogglePause}
+              />
+
+              {pendingReview && (
+                <ReviewPanel
+                  key={pendingReview.kind}
+                  request={pendingReview}
+                  onContinueTranscription={(problemText) => reviewResolverRef.current?.(problemText)}
+                  onContinueSolution={(pages) => reviewResolverRef.current?.(pages)}
+                  onCancel={handleCancel}
+                />
+              )}
 
               {/* Results View */}
               {generatedPages.length > 0 && processingState.step === ProcessingStep.COMPLETED && (
                 <div className="mt-8 w-full max-w-4xl animate-[slideIn_0.5s_ease-out]">
                    <div className="flex flex-col md:flex-row justify-between items-center mb-6 bg-black p-4 border-2 border-white/50 gap-4">
-                      <h2 className="text-[#ccff00] text-xl font-bold">>>> OUTPUT_GENERATED_SUCCESSFULLY</h2>
+                      <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; OUTPUT_GENERATED_SUCCESSFULLY</h2>
                       <div className="flex gap-4">
                         <button 
                           onClick={clearFiles} 
@@ -379,17 +766,41 @@ const App: React.FC = () => {
                         >
                           <Download className="w-4 h-4" /> SAVE_PDF
                         </button>
+                        <ExportMenu
+                          run={currentRun}
+                          baseName={resolveExportBaseName(settings.pdfExport.fileName, currentRun?.transcription)}
+                          onError={setPageError}
+                        />
                       </div>
                    </div>
 
+                   {currentRun?.models && describeStepModels(currentRun.models) && (
+                     <div className="mb-6 bg-black text-gray-400 p-3 border-2 border-white/50 font-mono text-sm">&gt; {describeStepModels(currentRun.models)}</div>
+                   )}
+
+                   {currentRun?.cost && currentRun.cost.calls > 0 && (
+                     <CostPanel report={currentRun.cost} monthlySpend={getMonthlySpend()} monthlyCap={settings.monthlySpendingCap} />
+                   )}
+
+                   {currentRun?.verification && currentRun.solution && (
+                     <VerificationPanel report={currentRun.verification} solution={currentRun.solution} />
+                   )}
+
+                   {pageError && (
+                     <div className="mb-6 bg-black text-red-500 p-3 border-2 border-red-500 font-bold">&gt; {pageError}</div>
+                   )}
+
                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 pb-20">
-                    {generatedPages.map((page, idx) => (
-                      <div key={idx} className="bg-white p-2 shadow-2xl rotate-1 first:rotate-[-1deg] border border-gray-300">
-                        <div className="relative aspect-[3/4] overflow-hidden bg-slate-100 border border-gray-200">
-                           <img src={page.imageUrl} className="w-full h-full object-cover" alt="Solution Page" />
-                        </div>
-                        <div className="text-center font-handwriting text-gray-500 mt-2">Page_{page.pageNumber}</div>
-                      </div>
+                    {generatedPages.map(page => (
+                      <PageCard
+                        key={page.id}
+                        page={page}
+                        isBusy={busyPages.includes(page.pageNumber)}
+                        canDelete={busyPages.length === 0 && generatedPages.length > 1}
+                        fidelityThreshold={settings.fidelityThreshold}
+                        onRegenerate={(sourceText) => handleRegeneratePage(page, sourceText)}
+                        onDelete={() => handleDeletePage(page)}
+                      />
                     ))}
                    </div>
                 </div>
@@ -405,6 +816,14 @@ const App: React.FC = () => {
           <span className={`${terminalCursor ? 'opacity-100' : 'opacity-0'} ml-1 block w-3 h-5 bg-[#0f0]`}></span>
         </div>
       </div>
+
+      {cropSource && (
+        <CropEditor
+          file={cropSource.file}
+          onConfirm={handleCropsConfirmed}
+          onCancel={() => setCropSource(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, FileArchive, Loader2, Play, Trash2, XCircle } from 'lucide-react';
+import { UploadZone } from './UploadZone';
+import { AppSettings, PageLayoutOptions, SolveRun, UploadedFile } from '../types';
+import { BatchItem, createBatchItem, MAX_BATCH_CONCURRENCY, runBatch } from '../services/batchService';
+import { isPdfFile } from '../services/pdfImportService';
+import { generateHandwrittenPage, readPageText, solveMathProblem, transcribeMathProblem, validateSolution } from '../services/modelProvider';
+import { generateCombinedPDF, PdfSection } from '../services/pdfService';
+import { downloadBlob, generatePerProblemZip } from '../services/exportService';
+import { createRunId, saveRun, toStoredFile } from '../services/historyService';
+
+interface BatchPanelProps {
+  settings: AppSettings;
+  layout: PageLayoutOptions;
+  handwritingImage: UploadedFile | null;
+  onHandwritingSelect: (file: File) => void;
+  onHandwritingClear: () => void;
+  /** PDFs are handed back to the app for cropping instead of being queued whole. */
+  onPdfSelect: (file: File) => void;
+  /** Crops waiting to be appended to the queue. */
+  incomingFiles: File[];
+  onIncomingConsumed: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'bg-gray-200 text-black',
+  running: 'bg-[#ccff00] text-black',
+  completed: 'bg-black text-[#ccff00]',
+  failed: 'bg-red-500 text-white',
+  cancelled: 'bg-gray-400 text-black',
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  settings,
+  layout,
+  handwritingImage,
+  onHandwritingSelect,
+  onHandwritingClear,
+  onPdfSelect,
+  incomingFiles,
+  onIncomingConsumed
+}) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const completedItems = items.filter(item => item.status === 'completed' && item.pages && item.pages.length > 0);
+
+  const enqueue = (files: File[]) => {
+    setItems(prev => [...prev, ...files.map((file, i) => createBatchItem(file, prev.length + i))]);
+  };
+
+  useEffect(() => {
+    if (incomingFiles.length === 0) return;
+    enqueue(incomingFiles);
+    onIncomingConsumed();
+  }, [incomingFiles, onIncomingConsumed]);
+
+  const handleAddFiles = (files: File[]) => {
+    setError(null);
+    enqueue(files.filter(file => !isPdfFile(file)));
+    // One sheet at a time; the crop editor is modal
+    const pdf = files.find(isPdfFile);
+    if (pdf) onPdfSelect(pdf);
+  };
+
+  const persistCompleted = (item: BatchItem) => {
+    if (!handwritingImage || !item.pages || item.problemText === undefined) return;
+    const run: SolveRun = {
+      id: createRunId(),
+      createdAt: item.startedAt ?? Date.now(),
+      completedAt: item.completedAt ?? Date.now(),
+      updatedAt: Date.now(),
+      questionImage: toStoredFile(item.file),
+      handwritingImage: toStoredFile(handwritingImage.file),
+      transcription: item.problemText,
+      solution: item.solution,
+      verification: item.verification,
+      solutionPages: item.solutionPages ?? [],
+      pages: item.pages,
+      layout,
+      models: item.models,
+      cost: item.cost,
+      validationReason: item.validationReason
+    };
+    saveRun(run).catch(e => console.error("History save error", e));
+  };
+
+  const handleRun = async () => {
+    if (!handwritingImage || isRunning) return;
+    // Re-queue anything that didn't finish last time
+    const queue = items.map(item =>
+      item.status === 'completed' ? item : { ...createBatchItem(item.file, 0), id: item.id, label: item.label }
+    );
+    setItems(queue);
+    setIsRunning(true);
+    setError(null);
+
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    await runBatch(
+      queue,
+      handwritingImage.file,
+      { transcribeMathProblem, solveMathProblem, generateHandwrittenPage, validateSolution, readPageText },
+      {
+        concurrency,
+        settings,
+        layout,
+        signal: abortController.signal,
+        onItemUpdate: (updated) => {
+          setItems(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+          if (updated.status === 'completed') persistCompleted(updated);
+        }
+      }
+    );
+
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const toSections = (): PdfSection[] =>
+    completedItems.map((item, index) => ({
+      title: `Problem ${index + 1}: ${item.label}`,
+      subtitle: item.problemText,
+      images: (item.pages ?? []).map(page => page.imageUrl),
+      pageTexts: (item.pages ?? []).map(page => page.sourceText)
+    }));
+
+  const handleCombinedPdf = async () => {
+    try {
+      downloadBlob(await generateCombinedPDF(toSections(), settings.pdfExport), 'MathSolutions_Batch.pdf');
+    } catch (e: any) {
+      console.error("PDF export error", e);
+      setError('EXPORT FAILED: ' + (e?.message || 'Unknown error.'));
+    }
+  };
+
+  const handleZip = async () => {
+    try {
+      downloadBlob(await generatePerProblemZip(toSections(), settings.pdfExport), 'MathSolutions_Batch.zip');
+    } catch (e: any) {
+      console.error("Zip export error", e);
+      setError('EXPORT FAILED: ' + (e?.message || 'Unknown error.'));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto font-mono pb-20">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 bg-black p-4 border-2 border-white/50 gap-4">
+        <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; BATCH_QUEUE</h2>
+        <div className="flex flex-wrap gap-3 items-center">
+          <label className="text-gray-400 flex items-center gap-2">
+            PARALLEL:
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+              className="bg-white text-black border-2 border-black px-2"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n === 1 ? '1 (sequential)' : n}</option>
+              ))}
+            </select>
+          </label>
+          {isRunning ? (
+            <button onClick={handleCancel} className="bg-red-500 text-white font-bold px-4 py-2 border-2 border-black hover:bg-red-600 flex items-center gap-2">
+              <XCircle className="w-4 h-4" /> CANCEL
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={!handwritingImage || items.length === 0 || items.every(item => item.status === 'completed')}
+              className="bg-[#d946ef] text-white font-bold px-4 py-2 border-2 border-black hover:bg-[#c026d3] flex items-center gap-2 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" /> RUN_QUEUE
+            </button>
+          )}
+          <button
+            onClick={handleCombinedPdf}
+            disabled={completedItems.length === 0}
+            className="bg-[#ccff00] text-black font-bold px-4 py-2 border-2 border-black hover:bg-white flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" /> COMBINED_PDF
+          </button>
+          <button
+            onClick={handleZip}
+            disabled={completedItems.length === 0}
+            className="bg-white text-black font-bold px-4 py-2 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2 disabled:opacity-50"
+          >
+            <FileArchive className="w-4 h-4" /> ZIP
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-black text-red-500 p-3 border-2 border-red-500 font-bold">&gt; {error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+        <UploadZone
+          label="Queue problems..."
+          description="Drop images, or a PDF sheet to crop into problems."
+          file={null}
+          previewUrl={null}
+          onFileSelect={(file) => handleAddFiles([file])}
+          onFilesSelect={handleAddFiles}
+          onClear={() => {}}
+          accept="image/*,application/pdf"
+          multiple
+          variant="retro-question"
+        />
+        <UploadZone
+          label="Handwriting"
+          description=""
+          file={handwritingImage?.file || null}
+          previewUrl={handwritingImage?.previewUrl || null}
+          onFileSelect={onHandwritingSelect}
+          onClear={onHandwritingClear}
+          variant="retro-handwriting"
+        />
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item, index) => (
+          <div key={item.id} className="bg-white border-4 border-black p-3 flex items-center gap-4">
+            <span className="text-2xl font-bold w-10 text-center">{index + 1}</span>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className={`px-2 text-sm font-bold uppercase ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                <span className="truncate text-lg">{item.label}</span>
+              </div>
+              <div className="text-sm text-gray-500 truncate">
+                &gt; {item.error || item.problemText || item.state.message}
+              </div>
+              {item.status === 'running' && (
+                <div className="h-2 w-full bg-gray-200 mt-1">
+                  <div className="h-full bg-[#ccff00] transition-all" style={{ width: `${item.state.progress}%` }} />
+                </div>
+              )}
+            </div>
+            {item.status === 'running' && <Loader2 className="w-6 h-6 animate-spin" />}
+            {item.status === 'completed' && <CheckCircle2 className="w-6 h-6 text-green-600" />}
+            {item.status === 'failed' && <AlertCircle className="w-6 h-6 text-red-500" />}
+            <button
+              onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+              disabled={isRunning}
+              title="Remove from queue"
+              className="p-1 border-2 border-black hover:bg-red-500 hover:text-white disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
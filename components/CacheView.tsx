@@ -0,0 +1,121 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { CachedResponse, ModelStep, StructuredSolution } from '../types';
+import { clearResponseCache, deleteCachedResponse, listCachedResponses } from '../services/responseCache';
+
+const STEP_LABELS: Partial<Record<ModelStep, string>> = {
+  transcription: 'TRANSCRIPTION',
+  solver: 'SOLUTION',
+  image: 'PAGE_IMAGE',
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * A short look at what an entry holds: the text, the solution's final answer, or the page itself.
+ */
+const EntryPreview: React.FC<{ entry: CachedResponse }> = ({ entry }) => {
+  if (entry.step === 'image' && typeof entry.value === 'string') {
+    return <img src={entry.value} alt="Cached page" className="w-20 h-28 object-cover border border-gray-300 shrink-0" />;
+  }
+  const text = typeof entry.value === 'string'
+    ? entry.value
+    : (entry.value as Partial<StructuredSolution>)?.finalAnswer ?? JSON.stringify(entry.value);
+  return <div className="text-lg text-black truncate">{text}</div>;
+};
+
+export const CacheView: React.FC = () => {
+  const [entries, setEntries] = useState<CachedResponse[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listCachedResponses());
+      setError(null);
+    } catch (e: any) {
+      console.error("Cache load error", e);
+      setError(e?.message || 'Could not read the response cache.');
+      setEntries([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = async (entry: CachedResponse) => {
+    await deleteCachedResponse(entry.key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear the whole response cache? The next runs will call the models again.')) return;
+    await clearResponseCache();
+    refresh();
+  };
+
+  const totalBytes = (entries ?? []).reduce((sum, entry) => sum + entry.size, 0);
+  const totalHits = (entries ?? []).reduce((sum, entry) => sum + entry.hits, 0);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto font-mono">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 bg-black p-4 border-2 border-white/50 gap-4">
+        <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; RESPONSE_CACHE</h2>
+        <div className="flex items-center gap-4 text-gray-400">
+          {entries && (
+            <span>
+              {entries.length} entries · {formatBytes(totalBytes)} · {totalHits} hit(s)
+            </span>
+          )}
+          <button
+            onClick={handleClear}
+            disabled={!entries || entries.length === 0}
+            className="bg-red-500 text-white font-bold px-4 py-2 border-2 border-black hover:bg-red-600 transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" /> CLEAR_CACHE
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-black text-red-500 p-3 border-2 border-red-500 font-bold">&gt; {error}</div>
+      )}
+
+      {entries === null ? (
+        <div className="flex justify-center p-10">
+          <Loader2 className="w-8 h-8 text-black animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-white border-4 border-black p-8 text-center text-xl text-gray-500">NOTHING CACHED YET.</div>
+      ) : (
+        <div className="space-y-4 pb-20">
+          {entries.map(entry => (
+            <div key={entry.key} className="bg-white border-4 border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] p-3 flex gap-4">
+              {entry.step === 'image' && <EntryPreview entry={entry} />}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-500">
+                  <span className="px-1 font-bold text-black bg-[#ccff00]">{STEP_LABELS[entry.step] ?? entry.step}</span>
+                  {' '}{entry.model} · {formatBytes(entry.size)} · {entry.hits} hit(s)
+                </div>
+                {entry.step !== 'image' && <EntryPreview entry={entry} />}
+                <div className="text-sm text-gray-400 truncate">
+                  &gt; cached {new Date(entry.createdAt).toLocaleString()} · last used {new Date(entry.lastUsedAt).toLocaleString()}
+                </div>
+                <div className="text-xs text-gray-400 truncate" title={entry.key}>#{entry.key.slice(0, 16)}</div>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <button onClick={() => handleDelete(entry)} className="bg-white text-black font-bold px-3 py-1 border-2 border-black hover:bg-red-500 hover:text-white flex items-center gap-1">
+                    <Trash2 className="w-4 h-4" /> DELETE
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Send, Wand2 } from 'lucide-react';
+import { ChatTurn } from '../types';
+
+interface ChatPanelProps {
+  transcription: string | null;
+  turns: ChatTurn[];
+  isSending: boolean;
+  isApplying: boolean;
+  error: string | null;
+  onSend: (message: string) => void;
+  onApplyRevision: (pages: string[]) => void;
+}
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  transcription,
+  turns,
+  isSending,
+  isApplying,
+  error,
+  onSend,
+  onApplyRevision
+}) => {
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [turns.length, isSending]);
+
+  if (transcription === null) {
+    return (
+      <div className="w-full max-w-4xl mx-auto font-mono">
+        <div className="bg-white border-4 border-black p-8 text-center text-xl text-gray-500">
+          NO ACTIVE RUN. SOLVE A PROBLEM OR OPEN ONE FROM HISTORY TO START A CHAT.
+        </div>
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = draft.trim();
+    if (!message || isSending) return;
+    onSend(message);
+    setDraft('');
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto font-mono pb-20">
+      <div className="mb-6 bg-black p-4 border-2 border-white/50">
+        <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; CHAT_LOG</h2>
+        <p className="text-gray-400 truncate">&gt; PROBLEM: {transcription}</p>
+      </div>
+
+      <div className="bg-[#1a1a1a] border-4 border-[#ccff00] p-4 space-y-4 min-h-[16rem]">
+        {turns.length === 0 && (
+          <p className="text-gray-500">Ask about any step, e.g. "why step 3?" or "solve it a different way".</p>
+        )}
+        {turns.map((turn, idx) => (
+          <div key={idx} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[80%] p-3 border-2 border-black whitespace-pre-wrap ${
+              turn.role === 'user' ? 'bg-[#ccff00] text-black' : 'bg-white text-black'
+            }`}>
+              <span className="block text-xs opacity-60 mb-1">{turn.role === 'user' ? 'USER' : 'MATHMIMIC'}</span>
+              {turn.text}
+              {turn.revisedPages && (
+                <div className="mt-3 border-t-2 border-dashed border-black/30 pt-2">
+                  <span className="block text-sm mb-2">Revised solution: {turn.revisedPages.length} page(s)</span>
+                  <button
+                    onClick={() => onApplyRevision(turn.revisedPages as string[])}
+                    disabled={isApplying}
+                    className="bg-[#d946ef] text-white font-bold px-3 py-1 border-2 border-black hover:bg-[#c026d3] flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <Wand2 className="w-4 h-4" /> WRITE THIS VERSION
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+        {isSending && (
+          <div className="flex justify-start">
+            <Loader2 className="w-6 h-6 text-[#ccff00] animate-spin" />
+          </div>
+        )}
+        {error && <div className="text-red-500 font-bold">&gt; {error}</div>}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-3 mt-4">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Ask a follow-up question..."
+          className="flex-1 px-4 py-3 border-2 border-black bg-gray-50 font-mono text-lg focus:ring-2 focus:ring-[#ccff00] outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="bg-black text-white font-bold px-4 py-2 border-2 border-black hover:bg-gray-800 flex items-center gap-2 disabled:opacity-50"
+        >
+          SEND <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Coins } from 'lucide-react';
+import { CostReport, ModelStep } from '../types';
+import { formatUsd } from '../services/costService';
+
+interface CostPanelProps {
+  report: CostReport;
+  monthlySpend: number;
+  /** 0 when no cap is set. */
+  monthlyCap: number;
+}
+
+const STEP_LABELS: Record<ModelStep, string> = {
+  transcription: 'TRANSCRIPTION',
+  solver: 'SOLVING',
+  image: 'PAGE_IMAGES',
+  validation: 'VALIDATION',
+  ocr: 'READ_BACK',
+  chat: 'CHAT',
+};
+
+const formatCount = (n: number) => n.toLocaleString();
+
+export const CostPanel: React.FC<CostPanelProps> = ({ report, monthlySpend, monthlyCap }) => (
+  <div className="mb-6 bg-white border-4 border-black p-4 font-mono text-black">
+    <div className="flex flex-wrap items-center gap-3 mb-3">
+      <Coins className="w-6 h-6" />
+      <span className="font-bold text-lg">RUN_COST</span>
+      <span className="px-2 font-bold bg-[#ccff00]">~{formatUsd(report.cost)}</span>
+      <span className="text-gray-500">
+        &gt; {formatUsd(monthlySpend)} this month{monthlyCap > 0 && ` of ${formatUsd(monthlyCap)} cap`}
+      </span>
+    </div>
+
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-right">
+        <thead>
+          <tr className="border-b-2 border-black">
+            <th className="text-left py-1">STEP</th>
+            <th>CALLS</th>
+            <th>IN</th>
+            <th>OUT</th>
+            <th>THINKING</th>
+            <th>IMAGES</th>
+            <th>RETRIES</th>
+            <th>COST</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(STEP_LABELS) as ModelStep[]).filter(step => report.byStep[step]).map(step => {
+            const totals = report.byStep[step]!;
+            return (
+              <tr key={step} className="border-b border-dashed border-black/20">
+                <td className="text-left py-1">{STEP_LABELS[step]}</td>
+                <td>{totals.calls}</td>
+                <td>{formatCount(totals.inputTokens)}</td>
+                <td>{formatCount(totals.outputTokens)}</td>
+                <td>{formatCount(totals.thinkingTokens)}</td>
+                <td>{totals.images}</td>
+                <td>{totals.retries}</td>
+                <td>{formatUsd(totals.cost)}</td>
+              </tr>
+            );
+          })}
+          <tr className="font-bold">
+            <td className="text-left py-1">TOTAL</td>
+            <td>{report.calls}</td>
+            <td>{formatCount(report.inputTokens)}</td>
+            <td>{formatCount(report.outputTokens)}</td>
+            <td>{formatCount(report.thinkingTokens)}</td>
+            <td>{report.images}</td>
+            <td>{report.retries}</td>
+            <td>{formatUsd(report.cost)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+
+    {report.unpricedModels.length > 0 && (
+      <p className="text-sm text-red-500 mt-2">
+        &gt; No price for {report.unpricedModels.join(', ')}; add it under Settings → PRICING. Those calls are counted as free.
+      </p>
+    )}
+  </div>
+);
@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Loader2, RotateCcw, Square, X } from 'lucide-react';
+import { CropRegion, detectProblemRegions } from '../services/problemDetection';
+import { cropCanvasToFile, renderSourcePages } from '../services/pdfImportService';
+
+interface CropEditorProps {
+  /** A PDF (every page is shown) or a single image. */
+  file: File;
+  title?: string;
+  /** Start with detected problem boxes; otherwise each page starts as one whole-page box. */
+  autoDetect?: boolean;
+  /** Receives one PNG per crop, in page order then top-to-bottom. */
+  onConfirm: (files: File[]) => void;
+  onCancel: () => void;
+}
+
+interface EditorPage {
+  canvas: HTMLCanvasElement;
+  previewUrl: string;
+  regions: CropRegion[];
+}
+
+interface DragState {
+  mode: 'draw' | 'move' | 'resize';
+  pageIndex: number;
+  regionIndex: number;
+  startX: number;
+  startY: number;
+  origin: CropRegion;
+}
+
+// Anything smaller is treated as a stray click rather than a drawn box
+const MIN_REGION_SIZE = 0.02;
+const FULL_PAGE: CropRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const pointerPosition = (e: React.PointerEvent, element: HTMLElement) => {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: clamp01((e.clientX - rect.left) / rect.width),
+    y: clamp01((e.clientY - rect.top) / rect.height)
+  };
+};
+
+export const CropEditor: React.FC<CropEditorProps> = ({ file, title = 'CROP_PROBLEMS', autoDetect = true, onConfirm, onCancel }) => {
+  const [pages, setPages] = useState<EditorPage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderSourcePages(file)
+      .then(canvases => {
+        if (cancelled) return;
+        setPages(canvases.map(canvas => {
+          const regions = autoDetect ? detectProblemRegions(canvas) : [];
+          return {
+            canvas,
+            previewUrl: canvas.toDataURL('image/png'),
+            regions: regions.length > 0 ? regions : [FULL_PAGE]
+          };
+        }));
+      })
+      .catch(e => {
+        console.error("Crop source render error", e);
+        if (!cancelled) setError('COULD NOT READ FILE: ' + (e?.message || 'Unknown error.'));
+      });
+    return () => { cancelled = true; };
+  }, [file, autoDetect]);
+
+  const updateRegions = (pageIndex: number, update: (regions: CropRegion[]) => CropRegion[]) => {
+    setPages(prev => prev && prev.map((page, i) => (i === pageIndex ? { ...page, regions: update(page.regions) } : page)));
+  };
+
+  const startDrag = (
+    e: React.PointerEvent,
+    mode: DragState['mode'],
+    pageIndex: number,
+    regionIndex: number,
+    surface: HTMLElement
+  ) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const { x, y } = pointerPosition(e, surface);
+    const origin = mode === 'draw' ? { x, y, width: 0, height: 0 } : pages![pageIndex].regions[regionIndex];
+    if (mode === 'draw') {
+      updateRegions(pageIndex, regions => [...regions, origin]);
+      regionIndex = pages![pageIndex].regions.length;
+    }
+    dragRef.current = { mode, pageIndex, regionIndex, startX: x, startY: y, origin };
+    surface.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = pointerPosition(e, e.currentTarget);
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    const { origin } = drag;
+
+    let next: CropRegion;
+    if (drag.mode === 'draw') {
+      next = {
+        x: Math.min(drag.startX, x),
+        y: Math.min(drag.startY, y),
+        width: Math.abs(dx),
+        height: Math.abs(dy)
+      };
+    } else if (drag.mode === 'move') {
+      next = {
+        ...origin,
+        x: clamp01(Math.min(origin.x + dx, 1 - origin.width)),
+        y: clamp01(Math.min(origin.y + dy, 1 - origin.height))
+      };
+    } else {
+      next = {
+        ...origin,
+        width: Math.max(MIN_REGION_SIZE, Math.min(origin.width + dx, 1 - origin.x)),
+        height: Math.max(MIN_REGION_SIZE, Math.min(origin.height + dy, 1 - origin.y))
+      };
+    }
+    updateRegions(drag.pageIndex, regions => regions.map((r, i) => (i === drag.regionIndex ? next : r)));
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode !== 'draw') return;
+    updateRegions(drag.pageIndex, regions =>
+      regions.filter((r, i) => i !== drag.regionIndex || (r.width >= MIN_REGION_SIZE && r.height >= MIN_REGION_SIZE))
+    );
+  };
+
+  const handleRedetect = () => {
+    setPages(prev => prev && prev.map(page => {
+      const regions = detectProblemRegions(page.canvas);
+      return { ...page, regions: regions.length > 0 ? regions : [FULL_PAGE] };
+    }));
+  };
+
+  const cropCount = pages?.reduce((sum, page) => sum + page.regions.length, 0) ?? 0;
+
+  const handleConfirm = async () => {
+    if (!pages || cropCount === 0) return;
+    setIsExporting(true);
+    try {
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      const crops: File[] = [];
+      let problemNumber = 0;
+      for (const [pageIndex, page] of pages.entries()) {
+        const ordered = [...page.regions].sort((a, b) => a.y - b.y);
+        for (const region of ordered) {
+          problemNumber++;
+          crops.push(await cropCanvasToFile(page.canvas, region, `${baseName}_p${pageIndex + 1}_q${problemNumber}.png`));
+        }
+      }
+      onConfirm(crops);
+    } catch (e: any) {
+      console.error("Crop export error", e);
+      setError('CROP FAILED: ' + (e?.message || 'Unknown error.'));
+      setIsExporting(false);
+    }
+  };
+
+  // Numbering shown on the boxes matches the order crops are queued in
+  let labelOffset = 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 overflow-y-auto font-mono">
+      <div className="max-w-5xl mx-auto p-6">
+        <div className="sticky top-0 z-10 flex flex-col md:flex-row justify-between items-center mb-6 bg-black p-4 border-2 border-white/50 gap-4">
+          <div>
+            <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; {title}</h2>
+            <p className="text-gray-400 text-sm">
+              &gt; {file.name}: drag on a page to add a box, drag a box to move it, drag its corner to resize.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleRedetect}
+              disabled={!pages || isExporting}
+              className="bg-white text-black font-bold px-4 py-2 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2 disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4" /> RE-DETECT
+            </button>
+            <button
+              onClick={onCancel}
+              disabled={isExporting}
+              className="bg-red-500 text-white font-bold px-4 py-2 border-2 border-black hover:bg-red-600 flex items-center gap-2 disabled:opacity-50"
+            >
+              <X className="w-4 h-4" /> CANCEL
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!pages || cropCount === 0 || isExporting}
+              className="bg-[#ccff00] text-black font-bold px-4 py-2 border-2 border-black hover:bg-white flex items-center gap-2 disabled:opacity-50"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              USE {cropCount} CROP{cropCount === 1 ? '' : 'S'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-black text-red-500 p-3 border-2 border-red-500 font-bold">&gt; {error}</div>
+        )}
+
+        {!pages && !error && (
+          <div className="flex items-center justify-center gap-3 text-[#ccff00] text-xl p-12">
+            <Loader2 className="w-6 h-6 animate-spin" /> RENDERING PAGES...
+          </div>
+        )}
+
+        <div className="space-y-8">
+          {pages?.map((page, pageIndex) => {
+            const ordered = page.regions
+              .map((region, index) => ({ region, index }))
+              .sort((a, b) => a.region.y - b.region.y);
+            const firstLabel = labelOffset;
+            labelOffset += ordered.length;
+
+            return (
+              <div key={pageIndex} className="bg-white border-4 border-black p-3">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="font-bold text-lg">PAGE {pageIndex + 1}</span>
+                  <button
+                    onClick={() => updateRegions(pageIndex, () => [FULL_PAGE])}
+                    className="text-sm px-2 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-1"
+                  >
+                    <Square className="w-3 h-3" /> WHOLE PAGE
+                  </button>
+                </div>
+                <div
+                  className="relative select-none touch-none cursor-crosshair"
+                  onPointerDown={(e) => startDrag(e, 'draw', pageIndex, -1, e.currentTarget)}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                >
+                  <img src={page.previewUrl} alt={`Page ${pageIndex + 1}`} className="w-full pointer-events-none" draggable={false} />
+                  {ordered.map(({ region, index }, position) => (
+                    <div
+                      key={index}
+                      onPointerDown={(e) => startDrag(e, 'move', pageIndex, index, e.currentTarget.parentElement as HTMLElement)}
+                      className="absolute border-4 border-[#d946ef] bg-[#d946ef]/10 cursor-move"
+                      style={{
+                        left: `${region.x * 100}%`,
+                        top: `${region.y * 100}%`,
+                        width: `${region.width * 100}%`,
+                        height: `${region.height * 100}%`
+                      }}
+                    >
+                      <span className="absolute -top-1 -left-1 bg-[#d946ef] text-white text-sm font-bold px-2">
+                        {firstLabel + position + 1}
+                      </span>
+                      <button
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={() => updateRegions(pageIndex, regions => regions.filter((_, i) => i !== index))}
+                        title="Remove crop"
+                        className="absolute -top-3 -right-3 bg-red-500 text-white border-2 border-black p-0.5 hover:scale-110"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                      <div
+                        onPointerDown={(e) => startDrag(e, 'resize', pageIndex, index, e.currentTarget.parentElement!.parentElement as HTMLElement)}
+                        className="absolute -bottom-2 -right-2 w-4 h-4 bg-[#ccff00] border-2 border-black cursor-se-resize"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
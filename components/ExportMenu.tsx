@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, FileDown, Loader2 } from 'lucide-react';
+import { SolveRun } from '../types';
+import {
+  downloadBlob,
+  generateDocx,
+  generateLatex,
+  generateMarkdown,
+  generatePageImagesZip
+} from '../services/exportService';
+
+interface ExportMenuProps {
+  run: SolveRun | null;
+  /** File name without extension. */
+  baseName: string;
+  onError: (message: string) => void;
+}
+
+type ExportFormat = 'png-zip' | 'jpeg-zip' | 'docx' | 'markdown' | 'latex';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'png-zip', label: 'PAGES AS PNG (.zip)' },
+  { format: 'jpeg-zip', label: 'PAGES AS JPEG (.zip)' },
+  { format: 'docx', label: 'WORD (.docx)' },
+  { format: 'markdown', label: 'MARKDOWN (.md)' },
+  { format: 'latex', label: 'LATEX (.tex)' },
+];
+
+const buildExport = async (run: SolveRun, format: ExportFormat): Promise<{ blob: Blob; extension: string }> => {
+  switch (format) {
+    case 'png-zip':
+      return { blob: await generatePageImagesZip(run, 'png'), extension: 'zip' };
+    case 'jpeg-zip':
+      return { blob: await generatePageImagesZip(run, 'jpeg'), extension: 'zip' };
+    case 'docx':
+      return { blob: await generateDocx(run), extension: 'docx' };
+    case 'markdown':
+      return { blob: new Blob([generateMarkdown(run)], { type: 'text/markdown' }), extension: 'md' };
+    case 'latex':
+      return { blob: new Blob([generateLatex(run)], { type: 'application/x-tex' }), extension: 'tex' };
+  }
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ run, baseName, onError }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!run) return;
+    setIsOpen(false);
+    setBusyFormat(format);
+    try {
+      const { blob, extension } = await buildExport(run, format);
+      downloadBlob(blob, `${baseName}.${extension}`);
+    } catch (e: any) {
+      console.error("Export error", e);
+      onError('EXPORT FAILED: ' + (e?.message || 'Unknown error.'));
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={!run || busyFormat !== null}
+        className="bg-white text-black font-bold px-4 py-2 border-2 border-black hover:bg-[#ccff00] hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.5)] transition-all flex items-center gap-2 disabled:opacity-50"
+      >
+        {busyFormat ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+        EXPORT <ChevronDown className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border-4 border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] z-40">
+          {EXPORT_OPTIONS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-4 py-2 font-mono text-black hover:bg-[#ccff00] border-b-2 border-black last:border-b-0"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
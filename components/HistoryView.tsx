@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, Download, FolderOpen, Loader2, Trash2 } from 'lucide-react';
+import { SolveRun } from '../types';
+import { deleteRun, estimateRunSize, getStorageUsage, listRuns, purgeHistory, StorageUsage } from '../services/historyService';
+import { describeModelUsage, describeStepModels } from '../services/modelChain';
+import { formatUsd } from '../services/costService';
+
+interface HistoryViewProps {
+  onReopen: (run: SolveRun) => void;
+  onDuplicate: (run: SolveRun) => void;
+  onDownload: (run: SolveRun) => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onReopen, onDuplicate, onDownload }) => {
+  const [runs, setRuns] = useState<SolveRun[] | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const allRuns = await listRuns();
+      setRuns(allRuns);
+      setUsage(await getStorageUsage(allRuns));
+      setError(null);
+    } catch (e: any) {
+      console.error("History load error", e);
+      setError(e?.message || 'Could not read history.');
+      setRuns([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = async (run: SolveRun) => {
+    await deleteRun(run.id);
+    refresh();
+  };
+
+  const handlePurge = async () => {
+    if (!window.confirm('Delete ALL stored runs? This cannot be undone.')) return;
+    await purgeHistory();
+    refresh();
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto font-mono">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 bg-black p-4 border-2 border-white/50 gap-4">
+        <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; HISTORY</h2>
+        <div className="flex items-center gap-4 text-gray-400">
+          {usage && (
+            <span>
+              {formatBytes(usage.historyBytes)} stored
+              {usage.originQuota !== undefined && ` / ${formatBytes(usage.originQuota)} quota`}
+            </span>
+          )}
+          <button
+            onClick={handlePurge}
+            disabled={!runs || runs.length === 0}
+            className="bg-red-500 text-white font-bold px-4 py-2 border-2 border-black hover:bg-red-600 transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" /> PURGE
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-black text-red-500 p-3 border-2 border-red-500 font-bold">&gt; {error}</div>
+      )}
+
+      {runs === null ? (
+        <div className="flex justify-center p-10">
+          <Loader2 className="w-8 h-8 text-black animate-spin" />
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="bg-white border-4 border-black p-8 text-center text-xl text-gray-500">NO RUNS STORED YET.</div>
+      ) : (
+        <div className="space-y-4 pb-20">
+          {runs.map(run => (
+            <div key={run.id} className="bg-white border-4 border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] p-3 flex gap-4">
+              {run.pages[0] && (
+                <img src={run.pages[0].imageUrl} alt="First page" className="w-20 h-28 object-cover border border-gray-300 shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-500">
+                  {new Date(run.createdAt).toLocaleString()} · {run.pages.length} page(s) · {formatBytes(estimateRunSize(run))}
+                  {run.cost && run.cost.calls > 0 && ` · ~${formatUsd(run.cost.cost)}`}
+                </div>
+                <div className="text-lg text-black truncate">{run.transcription}</div>
+                {run.validationReason && (
+                  <div className="text-sm text-gray-400 truncate">&gt; {run.validationReason}</div>
+                )}
+                {run.models && describeStepModels(run.models) && (
+                  <div className="text-sm text-gray-400 truncate">&gt; {describeStepModels(run.models)}</div>
+                )}
+                {run.pages.filter(page => page.skipped?.length).map(page => (
+                  <div key={page.pageNumber} className="text-sm text-gray-400 truncate">
+                    &gt; page {page.pageNumber} rendered by {describeModelUsage(page)}
+                  </div>
+                ))}
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <button onClick={() => onReopen(run)} className="bg-[#ccff00] text-black font-bold px-3 py-1 border-2 border-black hover:bg-white flex items-center gap-1">
+                    <FolderOpen className="w-4 h-4" /> OPEN
+                  </button>
+                  <button onClick={() => onDownload(run)} className="bg-white text-black font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-1">
+                    <Download className="w-4 h-4" /> PDF
+                  </button>
+                  <button onClick={() => onDuplicate(run)} className="bg-white text-black font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-1">
+                    <Copy className="w-4 h-4" /> DUPLICATE
+                  </button>
+                  <button onClick={() => handleDelete(run)} className="bg-white text-black font-bold px-3 py-1 border-2 border-black hover:bg-red-500 hover:text-white flex items-center gap-1">
+                    <Trash2 className="w-4 h-4" /> DELETE
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, LayoutTemplate } from 'lucide-react';
+import { PageHeader, PageLayoutOptions } from '../types';
+import { PAPER_LABELS, PAPER_STYLES } from '../services/settingsService';
+import { MARGIN_SIZES } from '../services/pageLayout';
+
+interface LayoutPanelProps {
+  layout: PageLayoutOptions;
+  onChange: (layout: PageLayoutOptions) => void;
+  /** Ink used when there is no override, shown as the picker's starting colour. */
+  defaultInkColor: string;
+}
+
+const inputClass = "w-full px-2 py-1 border-2 border-black bg-white text-black font-mono focus:ring-2 focus:ring-[#ccff00] outline-none";
+
+/**
+ * Per-run page options: paper, header block, margins, ink and numbering.
+ * They apply to every page of the next run, whichever renderer draws it.
+ */
+export const LayoutPanel: React.FC<LayoutPanelProps> = ({ layout, onChange, defaultInkColor }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<PageLayoutOptions>) => onChange({ ...layout, ...patch });
+  const updateHeader = (patch: Partial<PageHeader>) => update({ header: { ...layout.header, ...patch } });
+
+  const summary = [
+    layout.paper === 'reference' ? 'REFERENCE PAPER' : PAPER_LABELS[layout.paper],
+    `${layout.margin.toUpperCase()} MARGINS`,
+    layout.pageNumbers ? 'NUMBERED' : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="w-80 bg-black text-[#ccff00] border-2 border-white font-mono">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center justify-between gap-2 px-3 py-1 text-lg">
+        <span className="flex items-center gap-2"><LayoutTemplate className="w-4 h-4" /> PAGE_LAYOUT</span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {!isOpen && <div className="px-3 pb-1 text-xs text-gray-400 truncate">{summary}</div>}
+
+      {isOpen && (
+        <div className="p-3 space-y-3 border-t-2 border-white">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-sm">PAPER:</span>
+              <select
+                value={layout.paper}
+                onChange={(e) => update({ paper: e.target.value as PageLayoutOptions['paper'] })}
+                className={inputClass}
+              >
+                <option value="reference">REFERENCE</option>
+                {PAPER_STYLES.map(paper => <option key={paper} value={paper}>{PAPER_LABELS[paper]}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm">MARGINS:</span>
+              <select
+                value={layout.margin}
+                onChange={(e) => update({ margin: e.target.value as PageLayoutOptions['margin'] })}
+                className={inputClass}
+              >
+                {MARGIN_SIZES.map(margin => <option key={margin} value={margin}>{margin.toUpperCase()}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm">HEADER (NAME AND QUESTION ON EVERY PAGE):</span>
+            <input value={layout.header.name} onChange={(e) => updateHeader({ name: e.target.value })} placeholder="Name" className={inputClass} />
+            <div className="grid grid-cols-2 gap-2">
+              <input value={layout.header.date} onChange={(e) => updateHeader({ date: e.target.value })} placeholder="Date" className={inputClass} />
+              <input value={layout.header.questionNumber} onChange={(e) => updateHeader({ questionNumber: e.target.value })} placeholder="Question #" className={inputClass} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={layout.inkColor !== null}
+                onChange={(e) => update({ inkColor: e.target.checked ? defaultInkColor : null })}
+                className="accent-[#ccff00]"
+              />
+              INK_OVERRIDE
+            </label>
+            <input
+              type="color"
+              value={layout.inkColor ?? defaultInkColor}
+              disabled={layout.inkColor === null}
+              onChange={(e) => update({ inkColor: e.target.value })}
+              className="w-12 h-8 border-2 border-white bg-black disabled:opacity-30"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={layout.pageNumbers}
+              onChange={(e) => update({ pageNumbers: e.target.checked })}
+              className="accent-[#ccff00]"
+            />
+            NUMBER_PAGES
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
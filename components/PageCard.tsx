@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Loader2, RefreshCcw, Pencil, Trash2, Check, X, ScanText } from 'lucide-react';
+import { DiffSegment, GeneratedPage } from '../types';
+import { describeModelUsage } from '../services/modelChain';
+
+interface PageCardProps {
+  page: GeneratedPage;
+  isBusy: boolean;
+  canDelete: boolean;
+  fidelityThreshold: number;
+  onRegenerate: (sourceText?: string) => void;
+  onDelete: () => void;
+}
+
+const DIFF_STYLES: Record<DiffSegment['kind'], string> = {
+  same: '',
+  missing: 'bg-red-200 text-red-700 line-through',
+  extra: 'bg-yellow-200',
+};
+
+export const PageCard: React.FC<PageCardProps> = ({ page, isBusy, canDelete, fidelityThreshold, onRegenerate, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [draft, setDraft] = useState(page.sourceText);
+
+  const startEditing = () => {
+    setDraft(page.sourceText);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+    setIsEditing(false);
+    onRegenerate(draft);
+  };
+
+  return (
+    <div className="bg-white p-2 shadow-2xl rotate-1 first:rotate-[-1deg] border border-gray-300">
+      <div className="relative aspect-[3/4] overflow-hidden bg-slate-100 border border-gray-200">
+        {isEditing ? (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full h-full p-3 font-mono text-sm text-black bg-gray-50 outline-none resize-none"
+          />
+        ) : showDiff && page.fidelity ? (
+          // Red: meant to be on the page but not read back. Yellow: read back but never asked for.
+          <div className="w-full h-full p-3 overflow-auto font-mono text-sm text-black bg-gray-50 leading-relaxed">
+            {page.fidelity.diff.map((segment, i) => (
+              <span key={i} className={DIFF_STYLES[segment.kind]}>{segment.text} </span>
+            ))}
+          </div>
+        ) : (
+          <img src={page.imageUrl} className="w-full h-full object-cover" alt="Solution Page" />
+        )}
+        {isBusy && (
+          <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+            <Loader2 className="w-10 h-10 text-[#ccff00] animate-spin" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mt-2 font-mono">
+        <div className="font-handwriting text-gray-500">
+          Page_{page.pageNumber}
+          <span className="block text-xs text-gray-400">{describeModelUsage(page)} · try {page.attempts}</span>
+          {page.fidelity && (
+            <span
+              title="How much of the intended text was read back from the image"
+              className={`inline-block px-1 text-xs font-mono font-bold ${page.fidelity.score >= fidelityThreshold ? 'bg-[#ccff00] text-black' : 'bg-red-500 text-white'}`}
+            >
+              READ {page.fidelity.score}%
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {isEditing ? (
+            <>
+              <button onClick={submitEdit} disabled={!draft.trim()} title="Regenerate from edited text" className="p-1 border-2 border-black bg-[#ccff00] hover:bg-white">
+                <Check className="w-4 h-4" />
+              </button>
+              <button onClick={() => setIsEditing(false)} title="Discard edits" className="p-1 border-2 border-black bg-white hover:bg-gray-200">
+                <X className="w-4 h-4" />
+              </button>
+            </>
+          ) : (
+            <>
+              {page.fidelity && (
+                <button
+                  onClick={() => setShowDiff(prev => !prev)}
+                  title={showDiff ? 'Show page image' : 'Compare intended and read-back text'}
+                  className={`p-1 border-2 border-black hover:bg-[#ccff00] ${showDiff ? 'bg-[#ccff00]' : 'bg-white'}`}
+                >
+                  <ScanText className="w-4 h-4" />
+                </button>
+              )}
+              <button onClick={() => onRegenerate()} disabled={isBusy} title="Regenerate page" className="p-1 border-2 border-black bg-white hover:bg-[#ccff00] disabled:opacity-50">
+                <RefreshCcw className="w-4 h-4" />
+              </button>
+              <button onClick={startEditing} disabled={isBusy} title="Edit text and regenerate" className="p-1 border-2 border-black bg-white hover:bg-[#ccff00] disabled:opacity-50">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={onDelete} disabled={isBusy || !canDelete} title="Delete page" className="p-1 border-2 border-black bg-white hover:bg-red-500 hover:text-white disabled:opacity-50">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
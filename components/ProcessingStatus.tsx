@@ -1,16 +1,75 @@
-import React from 'react';
-import { Loader2, CheckCircle2, AlertCircle, Terminal } from 'lucide-react';
-import { ProcessingState, ProcessingStep } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Loader2, CheckCircle2, AlertCircle, Terminal, Pause, Play, XCircle } from 'lucide-react';
+import { PageProgress, ProcessingState, ProcessingStep, ServiceErrorKind } from '../types';
 
 interface ProcessingStatusProps {
   status: ProcessingState;
+  isPaused?: boolean;
+  onCancel?: () => void;
+  onTogglePause?: () => void;
 }
 
-export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ status }) => {
+const PAGE_STATUS_STYLES: Record<PageProgress['status'], string> = {
+  queued: 'border-white/20 text-gray-400',
+  writing: 'border-[#ccff00] text-[#ccff00]',
+  'rate-limited': 'border-yellow-400 text-yellow-400',
+  done: 'border-[#ccff00] bg-[#ccff00] text-black',
+  failed: 'border-red-500 text-red-500',
+};
+
+const pageStatusLabel = (page: PageProgress, now: number): string => {
+  switch (page.status) {
+    case 'queued': return 'QUEUED';
+    case 'writing': return 'WRITING';
+    case 'rate-limited': {
+      const seconds = Math.ceil(((page.retryAt ?? now) - now) / 1000);
+      return seconds > 0 ? `WAIT ${seconds}s` : 'RETRYING';
+    }
+    case 'done': return 'DONE';
+    case 'failed': return 'FAILED';
+  }
+};
+
+const ERROR_TITLES: Record<ServiceErrorKind, string> = {
+  'auth': 'ACCESS DENIED',
+  'quota': 'QUOTA EXHAUSTED',
+  'safety-blocked': 'BLOCKED',
+  'model-unavailable': 'MODEL UNAVAILABLE',
+  'malformed-response': 'BAD RESPONSE',
+  'network': 'CONNECTION LOST',
+  'cancelled': 'CANCELLED',
+};
+
+// What the user can do about each kind of failure
+const ERROR_HINTS: Partial<Record<ServiceErrorKind, string>> = {
+  'auth': 'Select a project or enter an API key with access to the configured models.',
+  'quota': 'Wait for the quota to reset, lower PAGE_CONCURRENCY or switch to the local page renderer.',
+  'safety-blocked': 'The model refused this input. Try a different photo of the problem or handwriting.',
+  'model-unavailable': 'Pick a model your key can use in Settings → MODELS.',
+  'malformed-response': 'The model answered in an unexpected format. Running again usually helps.',
+  'network': 'Check your connection and run again.',
+};
+
+export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ status, isPaused = false, onCancel, onTogglePause }) => {
+  const [now, setNow] = useState(Date.now);
+  const isWaiting = status.pages?.some(page => page.status === 'rate-limited') ?? false;
+
+  // Tick the rate-limit countdowns
+  useEffect(() => {
+    if (!isWaiting) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isWaiting]);
+
   if (status.step === ProcessingStep.IDLE) return null;
 
   const isError = status.step === ProcessingStep.ERROR;
   const isComplete = status.step === ProcessingStep.COMPLETED;
+  const isRunning = !isError && !isComplete;
+  const isAwaitingReview =
+    status.step === ProcessingStep.AWAITING_TRANSCRIPTION_REVIEW ||
+    status.step === ProcessingStep.AWAITING_SOLUTION_REVIEW;
 
   return (
     <div className="w-full max-w-2xl mx-auto mt-8 relative z-20">
@@ -21,22 +80,63 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ status }) =>
               <AlertCircle className="w-6 h-6 text-red-500" />
             ) : isComplete ? (
               <CheckCircle2 className="w-6 h-6 text-[#ccff00]" />
+            ) : isPaused || isAwaitingReview ? (
+              <Pause className="w-6 h-6 text-[#ccff00]" />
             ) : (
               <Loader2 className="w-6 h-6 text-[#ccff00] animate-spin" />
             )}
             
             <div>
               <h3 className={`text-xl uppercase tracking-wider ${isError ? 'text-red-500' : 'text-[#ccff00]'}`}>
-                {isError ? 'SYSTEM ERROR' : isComplete ? 'PROCESS COMPLETED' : 'PROCESSING...'}
+                {isError ? (status.errorKind ? ERROR_TITLES[status.errorKind] : 'SYSTEM ERROR') : isComplete ? 'PROCESS COMPLETED' : isAwaitingReview ? 'AWAITING REVIEW' : isPaused ? 'PAUSED' : 'PROCESSING...'}
               </h3>
               <p className="text-sm text-gray-400 font-mono">
                 <span className="mr-2">&gt;</span>{status.message}
               </p>
+              {isError && status.errorKind && ERROR_HINTS[status.errorKind] && (
+                <p className="text-sm text-white font-mono mt-1">{ERROR_HINTS[status.errorKind]}</p>
+              )}
             </div>
           </div>
           <span className="text-2xl font-bold text-white">{Math.round(status.progress)}%</span>
         </div>
 
+        {/* While awaiting review the ReviewPanel owns the controls */}
+        {isRunning && !isAwaitingReview && (onCancel || onTogglePause) && (
+          <div className="flex justify-end gap-3 mb-4 font-mono">
+            {onTogglePause && (
+              <button
+                onClick={onTogglePause}
+                className="bg-white text-black font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] transition-all flex items-center gap-2"
+              >
+                {isPaused ? <><Play className="w-4 h-4" /> RESUME</> : <><Pause className="w-4 h-4" /> PAUSE</>}
+              </button>
+            )}
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="bg-red-500 text-white font-bold px-3 py-1 border-2 border-black hover:bg-red-600 transition-all flex items-center gap-2"
+              >
+                <XCircle className="w-4 h-4" /> CANCEL
+              </button>
+            )}
+          </div>
+        )}
+
+        {status.pages && status.pages.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4 font-mono text-sm">
+            {status.pages.map(page => (
+              <div key={page.pageNumber} className={`flex items-center justify-between gap-2 px-2 py-1 border-2 ${PAGE_STATUS_STYLES[page.status]}`}>
+                <span>PAGE_{page.pageNumber}</span>
+                <span className="flex items-center gap-1">
+                  {page.status === 'writing' && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {pageStatusLabel(page, now)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Retro Progress Bar */}
         <div className="h-6 w-full bg-[#333] border-2 border-white/20 p-1">
           <div 
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import katex from 'katex';
+import { ChevronRight, Plus, Trash2, XCircle } from 'lucide-react';
+
+export type ReviewRequest =
+  | { kind: 'transcription'; problemText: string }
+  | { kind: 'solution'; problemText: string; pages: string[] };
+
+interface ReviewPanelProps {
+  request: ReviewRequest;
+  onContinueTranscription: (problemText: string) => void;
+  onContinueSolution: (pages: string[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Renders text that mixes prose and LaTeX. Delimited math ($...$, \(...\), \[...\])
+ * is typeset; if there are no delimiters the whole string is tried as math.
+ */
+const LatexPreview: React.FC<{ source: string }> = ({ source }) => {
+  const html = useMemo(() => {
+    const render = (tex: string, displayMode: boolean) =>
+      katex.renderToString(tex, { displayMode, throwOnError: false });
+    const escape = (text: string) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br/>');
+
+    const pattern = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\$([^$]+?)\$|\\\(([\s\S]+?)\\\)/g;
+    if (!pattern.test(source)) return render(source, true);
+    pattern.lastIndex = 0;
+
+    let out = '';
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+      out += escape(source.slice(last, match.index));
+      const [, displayA, displayB, inlineA, inlineB] = match;
+      const displayTex = displayA ?? displayB;
+      out += displayTex !== undefined
+        ? render(displayTex, true)
+        : render(inlineA ?? inlineB, false);
+      last = match.index + match[0].length;
+    }
+    return out + escape(source.slice(last));
+  }, [source]);
+
+  return (
+    <div
+      className="bg-white text-black p-4 border-2 border-black min-h-[4rem] overflow-x-auto font-sans"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  request,
+  onContinueTranscription,
+  onContinueSolution,
+  onCancel
+}) => {
+  const [problemText, setProblemText] = useState(request.problemText);
+  const [pages, setPages] = useState<string[]>(request.kind === 'solution' ? request.pages : []);
+
+  const nonEmptyPages = pages.filter(p => p.trim().length > 0);
+  const canContinue = request.kind === 'transcription'
+    ? problemText.trim().length > 0
+    : nonEmptyPages.length > 0;
+
+  const handleContinue = () => {
+    if (!canContinue) return;
+    if (request.kind === 'transcription') {
+      onContinueTranscription(problemText.trim());
+    } else {
+      onContinueSolution(nonEmptyPages);
+    }
+  };
+
+  const updatePage = (index: number, value: string) =>
+    setPages(prev => prev.map((p, i) => (i === index ? value : p)));
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mt-8 relative z-20 font-mono">
+      <div className="bg-[#1a1a1a] p-4 border-4 border-[#d946ef] shadow-[8px_8px_0px_0px_rgba(0,0,0,0.5)]">
+        <h3 className="text-xl uppercase tracking-wider text-[#d946ef] mb-4">
+          {request.kind === 'transcription' ? 'REVIEW: TRANSCRIPTION' : 'REVIEW: SOLUTION PAGES'}
+        </h3>
+
+        {request.kind === 'transcription' ? (
+          <div className="space-y-4">
+            <textarea
+              value={problemText}
+              onChange={(e) => setProblemText(e.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 border-2 border-black bg-gray-50 text-black font-mono focus:ring-2 focus:ring-[#ccff00] outline-none"
+            />
+            <div>
+              <div className="text-gray-400 text-sm mb-1">&gt; PREVIEW</div>
+              <LatexPreview source={problemText} />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-gray-400 text-sm">&gt; PROBLEM: {request.problemText}</div>
+            {pages.map((page, idx) => (
+              <div key={idx} className="relative">
+                <div className="flex items-center justify-between text-[#ccff00] text-sm mb-1">
+                  <span>PAGE_{idx + 1}</span>
+                  <button
+                    onClick={() => setPages(prev => prev.filter((_, i) => i !== idx))}
+                    className="text-red-400 hover:text-red-300 flex items-center gap-1"
+                  >
+                    <Trash2 className="w-4 h-4" /> REMOVE
+                  </button>
+                </div>
+                <textarea
+                  value={page}
+                  onChange={(e) => updatePage(idx, e.target.value)}
+                  rows={8}
+                  className="w-full px-3 py-2 border-2 border-black bg-gray-50 text-black font-mono focus:ring-2 focus:ring-[#ccff00] outline-none"
+                />
+              </div>
+            ))}
+            <button
+              onClick={() => setPages(prev => [...prev, ''])}
+              className="text-[#ccff00] hover:underline flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> ADD PAGE
+            </button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="bg-red-500 text-white font-bold px-4 py-2 border-2 border-black hover:bg-red-600 transition-all flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" /> CANCEL
+          </button>
+          <button
+            onClick={handleContinue}
+            disabled={!canContinue}
+            className={`font-bold px-4 py-2 border-2 border-black transition-all flex items-center gap-2 ${
+              canContinue ? 'bg-[#ccff00] text-black hover:bg-white' : 'bg-gray-400 text-gray-600 cursor-not-allowed'
+            }`}
+          >
+            CONTINUE <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
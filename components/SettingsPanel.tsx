@@ -0,0 +1,748 @@
+import React, { useState } from 'react';
+import { Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { AppSettings, ModelStep, ServiceErrorKind } from '../types';
+import { formatUsd, getMonthlySpend, resetMonthlySpend } from '../services/costService';
+import {
+  ASPECT_RATIOS,
+  FALLBACK_ERROR_KINDS,
+  HANDWRITING_FONTS,
+  IMAGE_SIZES,
+  MAX_LINES_PER_PAGE,
+  MAX_PAGE_RETRIES,
+  MAX_PAGE_CONCURRENCY,
+  MAX_RATE_LIMIT_RETRIES,
+  MAX_SPENDING_CAP,
+  MAX_LINE_SPACING,
+  MAX_SLANT,
+  MIN_LINE_SPACING,
+  PAGE_RENDERERS,
+  PAPER_LABELS,
+  PAPER_STYLES,
+  MIN_LINES_PER_PAGE,
+  PDF_IMAGE_FITS,
+  PDF_IMAGE_FORMATS,
+  PDF_PAGE_SIZES,
+  resetSettings,
+  saveSettings,
+  SettingsErrors,
+  validateSettings
+} from '../services/settingsService';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+const MODEL_FIELDS: { key: keyof AppSettings['models']; label: string }[] = [
+  { key: 'transcription', label: 'TRANSCRIPTION_MODEL' },
+  { key: 'solver', label: 'SOLVER_MODEL' },
+  { key: 'image', label: 'IMAGE_MODEL' },
+  { key: 'validation', label: 'VALIDATION_MODEL' },
+  { key: 'ocr', label: 'OCR_MODEL' },
+  { key: 'chat', label: 'CHAT_MODEL' },
+];
+
+const inputClass = "w-full px-3 py-2 border-2 border-black bg-gray-50 text-black font-mono focus:ring-2 focus:ring-[#ccff00] outline-none";
+
+const PDF_NUMBER_FIELDS = ['customWidth', 'customHeight', 'margin', 'jpegQuality', 'targetSizeKb'] as const;
+
+type PdfNumberField = typeof PDF_NUMBER_FIELDS[number];
+
+const RENDERER_NUMBER_FIELDS = ['slant', 'jitter', 'baselineWobble', 'lineSpacing'] as const;
+
+type RendererNumberField = typeof RENDERER_NUMBER_FIELDS[number];
+
+const PRICE_FIELDS = [
+  { key: 'inputPerMillion', label: 'IN $/1M' },
+  { key: 'outputPerMillion', label: 'OUT $/1M' },
+  { key: 'perImage', label: '$/IMAGE' },
+] as const;
+
+type PriceField = typeof PRICE_FIELDS[number]['key'];
+
+type PriceRow = { model: string } & Record<PriceField, string>;
+
+// Numbers are edited as strings so partially typed values don't get coerced mid-edit
+const toDraft = (settings: AppSettings) => ({
+  ...settings,
+  // Fallback models are edited as one comma-separated list per step
+  fallbacks: Object.fromEntries(MODEL_FIELDS.map(({ key }) => [key, {
+    models: settings.fallbacks[key].models.join(', '),
+    advanceOn: settings.fallbacks[key].advanceOn,
+  }])) as Record<ModelStep, { models: string; advanceOn: ServiceErrorKind[] }>,
+  thinkingBudget: {
+    solver: String(settings.thinkingBudget.solver),
+    solverFallback: String(settings.thinkingBudget.solverFallback),
+  },
+  maxAttempts: String(settings.maxAttempts),
+  linesPerPage: String(settings.linesPerPage),
+  fidelityThreshold: String(settings.fidelityThreshold),
+  maxPageRetries: String(settings.maxPageRetries),
+  pageConcurrency: String(settings.pageConcurrency),
+  rateLimitRetries: String(settings.rateLimitRetries),
+  // The price table is edited as rows so models can be added and renamed
+  pricing: Object.entries(settings.pricing).map(([model, price]): PriceRow => ({
+    model,
+    ...Object.fromEntries(PRICE_FIELDS.map(({ key }) => [key, String(price[key])])) as Record<PriceField, string>,
+  })),
+  monthlySpendingCap: String(settings.monthlySpendingCap),
+  localRenderer: {
+    ...settings.localRenderer,
+    ...Object.fromEntries(RENDERER_NUMBER_FIELDS.map(key => [key, String(settings.localRenderer[key])])) as Record<RendererNumberField, string>,
+  },
+  pdfExport: {
+    ...settings.pdfExport,
+    ...Object.fromEntries(PDF_NUMBER_FIELDS.map(key => [key, String(settings.pdfExport[key])])) as Record<PdfNumberField, string>,
+  },
+});
+
+type SettingsDraft = ReturnType<typeof toDraft>;
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-red-500 text-sm mt-1">&gt; {message}</p> : null;
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const [draft, setDraft] = useState<SettingsDraft>(() => toDraft(settings));
+  const [errors, setErrors] = useState<SettingsErrors>({});
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [monthlySpend, setMonthlySpend] = useState(getMonthlySpend);
+
+  const updateRenderer = (patch: Partial<SettingsDraft['localRenderer']>) =>
+    setDraft(d => ({ ...d, localRenderer: { ...d.localRenderer, ...patch } }));
+
+  const updateFallback = (step: ModelStep, patch: Partial<SettingsDraft['fallbacks'][ModelStep]>) =>
+    setDraft(d => ({ ...d, fallbacks: { ...d.fallbacks, [step]: { ...d.fallbacks[step], ...patch } } }));
+
+  const toggleAdvanceOn = (step: ModelStep, kind: ServiceErrorKind) => {
+    const current = draft.fallbacks[step].advanceOn;
+    updateFallback(step, { advanceOn: current.includes(kind) ? current.filter(k => k !== kind) : [...current, kind] });
+  };
+
+  const updatePriceRow = (index: number, patch: Partial<PriceRow>) =>
+    setDraft(d => ({ ...d, pricing: d.pricing.map((row, i) => (i === index ? { ...row, ...patch } : row)) }));
+
+  const handleResetSpend = () => {
+    if (!window.confirm('Reset this month\'s spending total to $0?')) return;
+    resetMonthlySpend();
+    setMonthlySpend(0);
+  };
+
+  const updatePdf = (patch: Partial<SettingsDraft['pdfExport']>) =>
+    setDraft(d => ({ ...d, pdfExport: { ...d.pdfExport, ...patch } }));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { settings: validated, errors: validationErrors } = validateSettings({
+      ...draft,
+      fallbacks: Object.fromEntries(MODEL_FIELDS.map(({ key }) => [key, {
+        models: draft.fallbacks[key].models.split(',').map(model => model.trim()).filter(Boolean),
+        advanceOn: draft.fallbacks[key].advanceOn,
+      }])),
+      thinkingBudget: {
+        solver: Number(draft.thinkingBudget.solver),
+        solverFallback: Number(draft.thinkingBudget.solverFallback),
+      },
+      maxAttempts: Number(draft.maxAttempts),
+      linesPerPage: Number(draft.linesPerPage),
+      fidelityThreshold: Number(draft.fidelityThreshold),
+      maxPageRetries: Number(draft.maxPageRetries),
+      pageConcurrency: Number(draft.pageConcurrency),
+      rateLimitRetries: Number(draft.rateLimitRetries),
+      pricing: Object.fromEntries(draft.pricing.map(row => [
+        row.model.trim(),
+        Object.fromEntries(PRICE_FIELDS.map(({ key }) => [key, Number(row[key])])),
+      ])),
+      monthlySpendingCap: Number(draft.monthlySpendingCap),
+      localRenderer: {
+        ...draft.localRenderer,
+        ...Object.fromEntries(RENDERER_NUMBER_FIELDS.map(key => [key, Number(draft.localRenderer[key])])),
+      },
+      pdfExport: {
+        ...draft.pdfExport,
+        ...Object.fromEntries(PDF_NUMBER_FIELDS.map(key => [key, Number(draft.pdfExport[key])])),
+      },
+    });
+    setErrors(validationErrors);
+    if (!validated) {
+      setSavedMessage(null);
+      return;
+    }
+    saveSettings(validated);
+    onChange(validated);
+    setSavedMessage('SETTINGS SAVED.');
+  };
+
+  const handleReset = () => {
+    const defaults = resetSettings();
+    setDraft(toDraft(defaults));
+    setErrors({});
+    onChange(defaults);
+    setSavedMessage('DEFAULTS RESTORED.');
+  };
+
+  return (
+    <form onSubmit={handleSave} className="w-full max-w-4xl mx-auto font-mono pb-20">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 bg-black p-4 border-2 border-white/50 gap-4">
+        <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; SETTINGS</h2>
+        <div className="flex gap-4">
+          <button
+            type="button"
+            onClick={handleReset}
+            className="bg-white text-black font-bold px-4 py-2 border-2 border-black hover:bg-[#ccff00] transition-all flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" /> RESET_DEFAULTS
+          </button>
+          <button
+            type="submit"
+            className="bg-[#ccff00] text-black font-bold px-4 py-2 border-2 border-black hover:bg-white transition-all flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> SAVE
+          </button>
+        </div>
+      </div>
+
+      {savedMessage && (
+        <div className="mb-6 bg-black text-[#ccff00] p-3 border-2 border-[#ccff00] font-bold">&gt; {savedMessage}</div>
+      )}
+
+      <div className="bg-white border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 space-y-6 text-black">
+        <section>
+          <h3 className="text-xl font-bold mb-3">MODELS</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {MODEL_FIELDS.map(({ key, label }) => (
+              <label key={key} className="block">
+                <span className="text-lg">{label}:</span>
+                <input
+                  value={draft.models[key]}
+                  onChange={(e) => setDraft(d => ({ ...d, models: { ...d.models, [key]: e.target.value } }))}
+                  className={inputClass}
+                />
+                <FieldError message={errors[`models.${key}`]} />
+              </label>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">FALLBACK_CHAINS</h3>
+          <p className="text-sm text-gray-500 mb-3">&gt; Models tried in order when a step's model fails. Only the ticked errors move on to the next model; anything else fails the step.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {MODEL_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block">
+                  <span className="text-lg">{label.replace(/_MODEL$/, '')}_FALLBACKS:</span>
+                  <input
+                    value={draft.fallbacks[key].models}
+                    onChange={(e) => updateFallback(key, { models: e.target.value })}
+                    placeholder="none (comma-separated)"
+                    className={inputClass}
+                  />
+                  <FieldError message={errors[`fallbacks.${key}.models`]} />
+                </label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+                  {FALLBACK_ERROR_KINDS.map(kind => (
+                    <label key={kind} className="flex items-center gap-2 text-sm cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={draft.fallbacks[key].advanceOn.includes(kind)}
+                        onChange={() => toggleAdvanceOn(key, kind)}
+                        className="accent-black w-4 h-4"
+                      />
+                      {kind.toUpperCase()}
+                    </label>
+                  ))}
+                </div>
+                <FieldError message={errors[`fallbacks.${key}.advanceOn`]} />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">THINKING_BUDGET</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-lg">SOLVER (tokens):</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.thinkingBudget.solver}
+                onChange={(e) => setDraft(d => ({ ...d, thinkingBudget: { ...d.thinkingBudget, solver: e.target.value } }))}
+                className={inputClass}
+              />
+              <FieldError message={errors['thinkingBudget.solver']} />
+            </label>
+            <label className="block">
+              <span className="text-lg">SOLVER_FALLBACK (tokens):</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.thinkingBudget.solverFallback}
+                onChange={(e) => setDraft(d => ({ ...d, thinkingBudget: { ...d.thinkingBudget, solverFallback: e.target.value } }))}
+                className={inputClass}
+              />
+              <FieldError message={errors['thinkingBudget.solverFallback']} />
+            </label>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">IMAGE_OUTPUT</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-lg">IMAGE_SIZE:</span>
+              <select
+                value={draft.imageSize}
+                onChange={(e) => setDraft(d => ({ ...d, imageSize: e.target.value as AppSettings['imageSize'] }))}
+                className={inputClass}
+              >
+                {IMAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+              <FieldError message={errors.imageSize} />
+            </label>
+            <label className="block">
+              <span className="text-lg">ASPECT_RATIO:</span>
+              <select
+                value={draft.aspectRatio}
+                onChange={(e) => setDraft(d => ({ ...d, aspectRatio: e.target.value as AppSettings['aspectRatio'] }))}
+                className={inputClass}
+              >
+                {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+              </select>
+              <FieldError message={errors.aspectRatio} />
+            </label>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">PAGE_RENDERER</h3>
+          <p className="text-sm text-gray-500 mb-3">&gt; LOCAL draws pages on a canvas offline instead of calling the image model.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-lg">RENDERER:</span>
+              <select
+                value={draft.pageRenderer}
+                onChange={(e) => setDraft(d => ({ ...d, pageRenderer: e.target.value as AppSettings['pageRenderer'] }))}
+                className={inputClass}
+              >
+                {PAGE_RENDERERS.map(renderer => <option key={renderer} value={renderer}>{renderer.toUpperCase()}</option>)}
+              </select>
+              <FieldError message={errors.pageRenderer} />
+            </label>
+            {draft.pageRenderer === 'local' && (
+              <>
+                <label className="block">
+                  <span className="text-lg">FONT:</span>
+                  <select
+                    value={draft.localRenderer.font}
+                    onChange={(e) => updateRenderer({ font: e.target.value as AppSettings['localRenderer']['font'] })}
+                    className={inputClass}
+                  >
+                    {HANDWRITING_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                  </select>
+                  <FieldError message={errors['localRenderer.font']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">PAPER:</span>
+                  <select
+                    value={draft.localRenderer.paper}
+                    onChange={(e) => updateRenderer({ paper: e.target.value as AppSettings['localRenderer']['paper'] })}
+                    className={inputClass}
+                  >
+                    {PAPER_STYLES.map(paper => <option key={paper} value={paper}>{PAPER_LABELS[paper]}</option>)}
+                  </select>
+                  <FieldError message={errors['localRenderer.paper']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">INK_COLOR:</span>
+                  <input
+                    type="color"
+                    value={draft.localRenderer.inkColor}
+                    onChange={(e) => updateRenderer({ inkColor: e.target.value })}
+                    className={`${inputClass} h-11 p-1`}
+                  />
+                  <FieldError message={errors['localRenderer.inkColor']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">SLANT (degrees):</span>
+                  <input
+                    type="number"
+                    min={-MAX_SLANT}
+                    max={MAX_SLANT}
+                    value={draft.localRenderer.slant}
+                    onChange={(e) => updateRenderer({ slant: e.target.value })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['localRenderer.slant']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">JITTER (%):</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.localRenderer.jitter}
+                    onChange={(e) => updateRenderer({ jitter: e.target.value })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['localRenderer.jitter']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">BASELINE_WOBBLE (%):</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.localRenderer.baselineWobble}
+                    onChange={(e) => updateRenderer({ baselineWobble: e.target.value })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['localRenderer.baselineWobble']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">LINE_SPACING (%):</span>
+                  <input
+                    type="number"
+                    min={MIN_LINE_SPACING}
+                    max={MAX_LINE_SPACING}
+                    value={draft.localRenderer.lineSpacing}
+                    onChange={(e) => updateRenderer({ lineSpacing: e.target.value })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['localRenderer.lineSpacing']} />
+                </label>
+              </>
+            )}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">RETRY_POLICY</h3>
+          <label className="block md:w-1/2">
+            <span className="text-lg">MAX_ATTEMPTS:</span>
+            <input
+              type="number"
+              min={1}
+              value={draft.maxAttempts}
+              onChange={(e) => setDraft(d => ({ ...d, maxAttempts: e.target.value }))}
+              className={inputClass}
+            />
+            <FieldError message={errors.maxAttempts} />
+          </label>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">CONCURRENCY</h3>
+          <p className="text-sm text-gray-500 mb-3">&gt; Pages are generated in parallel. Rate-limited (429) requests back off and retry; every request waits out the same cool-down.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-lg">PAGE_CONCURRENCY:</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_PAGE_CONCURRENCY}
+                value={draft.pageConcurrency}
+                onChange={(e) => setDraft(d => ({ ...d, pageConcurrency: e.target.value }))}
+                className={inputClass}
+              />
+              <FieldError message={errors.pageConcurrency} />
+            </label>
+            <label className="block">
+              <span className="text-lg">RATE_LIMIT_RETRIES:</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_RATE_LIMIT_RETRIES}
+                value={draft.rateLimitRetries}
+                onChange={(e) => setDraft(d => ({ ...d, rateLimitRetries: e.target.value }))}
+                className={inputClass}
+              />
+              <FieldError message={errors.rateLimitRetries} />
+            </label>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">PRICING</h3>
+          <p className="text-sm text-gray-500 mb-3">&gt; USD rates used to estimate what each run costs. Thinking tokens are billed as output.</p>
+          <div className="space-y-2">
+            {draft.pricing.map((row, index) => (
+              <div key={index}>
+                <div className="flex flex-wrap md:flex-nowrap items-center gap-2">
+                  <input
+                    value={row.model}
+                    onChange={(e) => updatePriceRow(index, { model: e.target.value })}
+                    placeholder="model name"
+                    className={`${inputClass} md:flex-1`}
+                  />
+                  {PRICE_FIELDS.map(({ key, label }) => (
+                    <label key={key} className="flex items-center gap-1 text-sm">
+                      {label}
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={row[key]}
+                        onChange={(e) => updatePriceRow(index, { [key]: e.target.value })}
+                        className={`${inputClass} w-24`}
+                      />
+                    </label>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setDraft(d => ({ ...d, pricing: d.pricing.filter((_, i) => i !== index) }))}
+                    title="Remove price"
+                    className="p-2 border-2 border-black bg-white hover:bg-red-500 hover:text-white"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <FieldError message={errors[`pricing.${row.model.trim()}`]} />
+              </div>
+            ))}
+          </div>
+          <FieldError message={errors.pricing} />
+          <button
+            type="button"
+            onClick={() => setDraft(d => ({ ...d, pricing: [...d.pricing, { model: '', inputPerMillion: '0', outputPerMillion: '0', perImage: '0' }] }))}
+            className="mt-3 bg-white text-black font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" /> ADD_MODEL
+          </button>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <label className="block">
+              <span className="text-lg">MONTHLY_SPENDING_CAP ($, 0 = none):</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_SPENDING_CAP}
+                step="any"
+                value={draft.monthlySpendingCap}
+                onChange={(e) => setDraft(d => ({ ...d, monthlySpendingCap: e.target.value }))}
+                className={inputClass}
+              />
+              <FieldError message={errors.monthlySpendingCap} />
+            </label>
+            <div className="flex items-end gap-3">
+              <span className="text-lg">THIS_MONTH: ~{formatUsd(monthlySpend)}</span>
+              <button
+                type="button"
+                onClick={handleResetSpend}
+                className="bg-white text-black font-bold px-3 py-1 border-2 border-black hover:bg-red-500 hover:text-white"
+              >
+                RESET
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">RESPONSE_CACHE</h3>
+          <p className="text-sm text-gray-500 mb-3">&gt; Identical requests (same image bytes, prompt and model settings) reuse the stored answer instead of calling the model. Inspect or clear it under CACHE.</p>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-lg cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={draft.responseCache.enabled}
+                onChange={(e) => setDraft(d => ({ ...d, responseCache: { ...d.responseCache, enabled: e.target.checked } }))}
+                className="accent-black w-5 h-5"
+              />
+              ENABLED (transcriptions and solutions)
+            </label>
+            <label className="flex items-center gap-2 text-lg cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={draft.responseCache.pageImages}
+                disabled={!draft.responseCache.enabled}
+                onChange={(e) => setDraft(d => ({ ...d, responseCache: { ...d.responseCache, pageImages: e.target.checked } }))}
+                className="accent-black w-5 h-5"
+              />
+              PAGE_IMAGES (same text and handwriting gives the same page)
+            </label>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">PAGINATION</h3>
+          <label className="block md:w-1/2">
+            <span className="text-lg">LINES_PER_PAGE:</span>
+            <input
+              type="number"
+              min={MIN_LINES_PER_PAGE}
+              max={MAX_LINES_PER_PAGE}
+              value={draft.linesPerPage}
+              onChange={(e) => setDraft(d => ({ ...d, linesPerPage: e.target.value }))}
+              className={inputClass}
+            />
+            <FieldError message={errors.linesPerPage} />
+          </label>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">PAGE_FIDELITY</h3>
+          <p className="text-sm text-gray-500 mb-3">&gt; Each page is read back with the OCR model; pages scoring below the threshold are regenerated.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-lg">THRESHOLD (%):</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={draft.fidelityThreshold}
+                onChange={(e) => setDraft(d => ({ ...d, fidelityThreshold: e.target.value }))}
+                className={inputClass}
+              />
+              <FieldError message={errors.fidelityThreshold} />
+            </label>
+            <label className="block">
+              <span className="text-lg">MAX_PAGE_RETRIES:</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_PAGE_RETRIES}
+                value={draft.maxPageRetries}
+                onChange={(e) => setDraft(d => ({ ...d, maxPageRetries: e.target.value }))}
+                className={inputClass}
+              />
+              <FieldError message={errors.maxPageRetries} />
+            </label>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-xl font-bold mb-3">PDF_EXPORT</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-lg">PAGE_SIZE:</span>
+              <select
+                value={draft.pdfExport.pageSize}
+                onChange={(e) => updatePdf({ pageSize: e.target.value as AppSettings['pdfExport']['pageSize'] })}
+                className={inputClass}
+              >
+                {PDF_PAGE_SIZES.map(size => <option key={size} value={size}>{size.toUpperCase()}</option>)}
+              </select>
+              <FieldError message={errors['pdfExport.pageSize']} />
+            </label>
+            {draft.pdfExport.pageSize === 'custom' ? (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block">
+                  <span className="text-lg">WIDTH (mm):</span>
+                  <input
+                    type="number"
+                    value={draft.pdfExport.customWidth}
+                    onChange={(e) => updatePdf({ customWidth: e.target.value })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['pdfExport.customWidth']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">HEIGHT (mm):</span>
+                  <input
+                    type="number"
+                    value={draft.pdfExport.customHeight}
+                    onChange={(e) => updatePdf({ customHeight: e.target.value })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['pdfExport.customHeight']} />
+                </label>
+              </div>
+            ) : <div />}
+            <label className="block">
+              <span className="text-lg">IMAGE_FIT:</span>
+              <select
+                value={draft.pdfExport.fit}
+                onChange={(e) => updatePdf({ fit: e.target.value as AppSettings['pdfExport']['fit'] })}
+                className={inputClass}
+              >
+                {PDF_IMAGE_FITS.map(fit => (
+                  <option key={fit} value={fit}>{fit === 'fit' ? 'FIT (whole page visible)' : 'FILL (trim edges)'}</option>
+                ))}
+              </select>
+              <FieldError message={errors['pdfExport.fit']} />
+            </label>
+            <label className="block">
+              <span className="text-lg">MARGIN (mm):</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.pdfExport.margin}
+                onChange={(e) => updatePdf({ margin: e.target.value })}
+                className={inputClass}
+              />
+              <FieldError message={errors['pdfExport.margin']} />
+            </label>
+            <label className="block">
+              <span className="text-lg">IMAGE_FORMAT:</span>
+              <select
+                value={draft.pdfExport.imageFormat}
+                onChange={(e) => updatePdf({ imageFormat: e.target.value as AppSettings['pdfExport']['imageFormat'] })}
+                className={inputClass}
+              >
+                {PDF_IMAGE_FORMATS.map(format => <option key={format} value={format}>{format.toUpperCase()}</option>)}
+              </select>
+              <FieldError message={errors['pdfExport.imageFormat']} />
+            </label>
+            {draft.pdfExport.imageFormat === 'jpeg' ? (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block">
+                  <span className="text-lg">QUALITY (%):</span>
+                  <input
+                    type="number"
+                    min={10}
+                    max={100}
+                    value={draft.pdfExport.jpegQuality}
+                    onChange={(e) => updatePdf({ jpegQuality: e.target.value })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['pdfExport.jpegQuality']} />
+                </label>
+                <label className="block">
+                  <span className="text-lg">MAX_SIZE (KB):</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.pdfExport.targetSizeKb}
+                    onChange={(e) => updatePdf({ targetSizeKb: e.target.value })}
+                    placeholder="0 = no target"
+                    className={inputClass}
+                  />
+                  <FieldError message={errors['pdfExport.targetSizeKb']} />
+                </label>
+              </div>
+            ) : <div />}
+            <label className="block">
+              <span className="text-lg">AUTHOR:</span>
+              <input
+                value={draft.pdfExport.author}
+                onChange={(e) => updatePdf({ author: e.target.value })}
+                className={inputClass}
+              />
+              <FieldError message={errors['pdfExport.author']} />
+            </label>
+            <label className="block">
+              <span className="text-lg">FILE_NAME:</span>
+              <input
+                value={draft.pdfExport.fileName}
+                onChange={(e) => updatePdf({ fileName: e.target.value })}
+                placeholder="MathSolution_{date}"
+                className={inputClass}
+              />
+              <span className="text-sm text-gray-500">{'{date}'} and {'{problem}'} are filled in on export.</span>
+              <FieldError message={errors['pdfExport.fileName']} />
+            </label>
+            <label className="flex items-center gap-2 text-lg cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={draft.pdfExport.coverPage}
+                onChange={(e) => updatePdf({ coverPage: e.target.checked })}
+                className="accent-black w-5 h-5"
+              />
+              COVER_PAGE (problem statement)
+            </label>
+          </div>
+        </section>
+      </div>
+    </form>
+  );
+};
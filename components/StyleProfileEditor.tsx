@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Eye, ImagePlus, Loader2, RotateCcw, X } from 'lucide-react';
+import { CropEditor } from './CropEditor';
+import { AppSettings, StoredFile, StyleAttributes, StyleProfile } from '../types';
+import { toStoredFile } from '../services/historyService';
+import { imageFileToCanvas } from '../services/pdfImportService';
+import { extractStyleAttributes } from '../services/styleExtraction';
+import { applyStyleProfile, buildReferenceSheet, createProfile, TEST_SENTENCE } from '../services/styleProfileService';
+import { generateHandwrittenPage } from '../services/modelProvider';
+import { MAX_LINE_SPACING, MAX_SLANT, MIN_LINE_SPACING, PAPER_LABELS, PAPER_STYLES } from '../services/settingsService';
+
+interface StyleProfileEditorProps {
+  /** Profile being edited, or null for a new one. */
+  profile: StyleProfile | null;
+  settings: AppSettings;
+  onSave: (profile: StyleProfile) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border-2 border-black bg-gray-50 text-black font-mono focus:ring-2 focus:ring-[#ccff00] outline-none";
+
+export const StyleProfileEditor: React.FC<StyleProfileEditorProps> = ({ profile, settings, onSave, onCancel }) => {
+  const [name, setName] = useState(profile?.name ?? '');
+  const [samples, setSamples] = useState<StoredFile[]>(profile?.samples ?? []);
+  const [attributes, setAttributes] = useState<StyleAttributes>(profile?.attributes ?? {
+    inkColor: settings.localRenderer.inkColor,
+    slant: settings.localRenderer.slant,
+    paper: settings.localRenderer.paper,
+    lineSpacing: settings.localRenderer.lineSpacing,
+  });
+  // Uploads waiting for the crop editor, one at a time
+  const [cropQueue, setCropQueue] = useState<File[]>([]);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [testText, setTestText] = useState(TEST_SENTENCE);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const thumbnails = useMemo(() => samples.map(sample => URL.createObjectURL(sample.data)), [samples]);
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const draftProfile = (): StyleProfile => profile
+    ? { ...profile, name: name.trim(), samples, attributes, updatedAt: Date.now() }
+    : createProfile(name.trim(), samples, attributes);
+
+  const measure = async (next: StoredFile[]) => {
+    if (next.length === 0) return;
+    setIsMeasuring(true);
+    try {
+      const canvases = await Promise.all(next.map(sample => imageFileToCanvas(sample.data)));
+      setAttributes(extractStyleAttributes(canvases));
+    } catch (e: any) {
+      console.error("Style extraction error", e);
+      setError('MEASURE FAILED: ' + (e?.message || 'Unknown error.'));
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setCropQueue(prev => [...prev, ...Array.from(e.target.files ?? [])]);
+    e.target.value = '';
+  };
+
+  const handleCropsConfirmed = (crops: File[]) => {
+    setCropQueue(prev => prev.slice(1));
+    const next = [...samples, ...crops.map(toStoredFile)];
+    setSamples(next);
+    measure(next);
+  };
+
+  const handleRemoveSample = (index: number) => {
+    const next = samples.filter((_, i) => i !== index);
+    setSamples(next);
+    measure(next);
+  };
+
+  const updateAttributes = (patch: Partial<StyleAttributes>) => setAttributes(prev => ({ ...prev, ...patch }));
+
+  // Uses the configured renderer, so the preview matches what a run would produce
+  const handlePreview = async () => {
+    if (samples.length === 0 || !testText.trim()) return;
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      const draft = draftProfile();
+      const reference = await buildReferenceSheet(draft);
+      const page = await generateHandwrittenPage(reference, testText.trim(), 0, { settings: applyStyleProfile(settings, draft) });
+      setPreview(page.imageUrl);
+    } catch (e: any) {
+      console.error("Profile preview error", e);
+      setError('PREVIEW FAILED: ' + (e?.message || 'Unknown error.'));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const canSave = name.trim().length > 0 && samples.length > 0 && !isMeasuring;
+
+  return (
+    <div className="bg-white border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 space-y-6 text-black mb-8">
+      <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+        <h3 className="text-xl font-bold">{profile ? `EDIT_PROFILE: ${profile.name}` : 'NEW_PROFILE'}</h3>
+        <div className="flex gap-3">
+          <button onClick={onCancel} className="bg-white font-bold px-4 py-2 border-2 border-black hover:bg-red-500 hover:text-white flex items-center gap-2">
+            <X className="w-4 h-4" /> CANCEL
+          </button>
+          <button
+            onClick={() => onSave(draftProfile())}
+            disabled={!canSave}
+            className="bg-[#ccff00] font-bold px-4 py-2 border-2 border-black hover:bg-white flex items-center gap-2 disabled:opacity-50"
+          >
+            <Check className="w-4 h-4" /> SAVE_PROFILE
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="bg-black text-red-500 p-3 border-2 border-red-500 font-bold">&gt; {error}</div>}
+
+      <label className="block">
+        <span className="text-lg">NAME:</span>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Sam, blue ballpoint" className={inputClass} />
+      </label>
+
+      <section>
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-lg">SAMPLES ({samples.length}):</span>
+          <label className="bg-white font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2 cursor-pointer">
+            <ImagePlus className="w-4 h-4" /> ADD_SAMPLES
+            <input type="file" accept="image/*,application/pdf" multiple onChange={handleAddFiles} className="hidden" />
+          </label>
+        </div>
+        {samples.length === 0 ? (
+          <p className="text-gray-500">&gt; Upload one or more photos of the handwriting, then crop the clean regions.</p>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {samples.map((sample, i) => (
+              <div key={i} className="relative">
+                <img src={thumbnails[i]} alt={sample.name} className="h-24 max-w-[12rem] object-contain border-2 border-black bg-gray-50" />
+                <button
+                  onClick={() => handleRemoveSample(i)}
+                  title="Remove sample"
+                  className="absolute -top-2 -right-2 bg-red-500 text-white border-2 border-black p-0.5 hover:scale-110"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-lg">ATTRIBUTES{isMeasuring ? ' (MEASURING...)' : ''}:</span>
+          <button
+            onClick={() => measure(samples)}
+            disabled={samples.length === 0 || isMeasuring}
+            className="bg-white font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2 disabled:opacity-50"
+          >
+            <RotateCcw className="w-4 h-4" /> RE-MEASURE
+          </button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <label className="block">
+            <span>INK_COLOR:</span>
+            <input type="color" value={attributes.inkColor} onChange={(e) => updateAttributes({ inkColor: e.target.value })} className={`${inputClass} h-11 p-1`} />
+          </label>
+          <label className="block">
+            <span>SLANT (deg):</span>
+            <input
+              type="number"
+              min={-MAX_SLANT}
+              max={MAX_SLANT}
+              value={attributes.slant}
+              onChange={(e) => updateAttributes({ slant: Math.max(-MAX_SLANT, Math.min(MAX_SLANT, Math.round(Number(e.target.value) || 0))) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span>PAPER:</span>
+            <select value={attributes.paper} onChange={(e) => updateAttributes({ paper: e.target.value as StyleAttributes['paper'] })} className={inputClass}>
+              {PAPER_STYLES.map(paper => <option key={paper} value={paper}>{PAPER_LABELS[paper]}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span>LINE_SPACING (%):</span>
+            <input
+              type="number"
+              min={MIN_LINE_SPACING}
+              max={MAX_LINE_SPACING}
+              value={attributes.lineSpacing}
+              onChange={(e) => updateAttributes({ lineSpacing: Math.max(MIN_LINE_SPACING, Math.min(MAX_LINE_SPACING, Math.round(Number(e.target.value) || 0))) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </section>
+
+      <section>
+        <span className="text-lg">TEST_PREVIEW:</span>
+        <div className="flex gap-3 mt-1">
+          <input value={testText} onChange={(e) => setTestText(e.target.value)} className={inputClass} />
+          <button
+            onClick={handlePreview}
+            disabled={samples.length === 0 || !testText.trim() || isPreviewing}
+            className="bg-white font-bold px-4 py-2 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2 disabled:opacity-50 shrink-0"
+          >
+            {isPreviewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />} PREVIEW
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">&gt; Rendered with the {settings.pageRenderer === 'local' ? 'local renderer' : 'image model'} (see SETTINGS).</p>
+        {preview && <img src={preview} alt="Profile preview" className="mt-3 max-h-96 border-2 border-black" />}
+      </section>
+
+      {cropQueue.length > 0 && (
+        <CropEditor
+          key={`${cropQueue[0].name}-${cropQueue.length}`}
+          file={cropQueue[0]}
+          title="CROP_SAMPLES"
+          autoDetect={false}
+          onConfirm={handleCropsConfirmed}
+          onCancel={() => setCropQueue(prev => prev.slice(1))}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Download, Loader2, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { StyleProfileEditor } from './StyleProfileEditor';
+import { AppSettings, StyleProfile } from '../types';
+import { deleteProfile, exportProfiles, importProfiles, listProfiles, saveProfile } from '../services/styleProfileService';
+import { downloadBlob } from '../services/exportService';
+import { PAPER_LABELS } from '../services/settingsService';
+
+interface StyleProfilesViewProps {
+  settings: AppSettings;
+  activeProfileId: string | null;
+  /** Builds the reference image from the profile and makes it the handwriting for new runs. */
+  onUse: (profile: StyleProfile) => Promise<void>;
+  /** Called after a profile is saved or deleted so the app can refresh a profile it is using. */
+  onProfilesChanged: (profiles: StyleProfile[]) => void;
+}
+
+const PROFILE_FILE_SUFFIX = '.mathmimic-style.json';
+
+export const StyleProfilesView: React.FC<StyleProfilesViewProps> = ({ settings, activeProfileId, onUse, onProfilesChanged }) => {
+  const [profiles, setProfiles] = useState<StyleProfile[] | null>(null);
+  // undefined: editor closed, null: new profile
+  const [editing, setEditing] = useState<StyleProfile | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Latest callback without re-running the initial load whenever the parent re-renders
+  const onProfilesChangedRef = useRef(onProfilesChanged);
+  onProfilesChangedRef.current = onProfilesChanged;
+
+  const refresh = useCallback(async () => {
+    try {
+      const all = await listProfiles();
+      setProfiles(all);
+      onProfilesChangedRef.current(all);
+    } catch (e: any) {
+      console.error("Profile load error", e);
+      setError(e?.message || 'Could not read profiles.');
+      setProfiles([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleSave = async (profile: StyleProfile) => {
+    try {
+      await saveProfile(profile);
+      setEditing(undefined);
+      setMessage(`PROFILE "${profile.name}" SAVED.`);
+      refresh();
+    } catch (e: any) {
+      console.error("Profile save error", e);
+      setError('SAVE FAILED: ' + (e?.message || 'Unknown error.'));
+    }
+  };
+
+  const handleUse = async (profile: StyleProfile) => {
+    setError(null);
+    try {
+      await onUse(profile);
+      setMessage(`USING "${profile.name}" FOR NEW RUNS.`);
+    } catch (e: any) {
+      console.error("Profile use error", e);
+      setError('COULD NOT USE PROFILE: ' + (e?.message || 'Unknown error.'));
+    }
+  };
+
+  const handleDelete = async (profile: StyleProfile) => {
+    if (!window.confirm(`Delete profile "${profile.name}"?`)) return;
+    await deleteProfile(profile.id);
+    refresh();
+  };
+
+  const handleExport = async (selection: StyleProfile[], fileName: string) => {
+    try {
+      downloadBlob(await exportProfiles(selection), fileName);
+    } catch (e: any) {
+      console.error("Profile export error", e);
+      setError('EXPORT FAILED: ' + (e?.message || 'Unknown error.'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = await importProfiles(file);
+      for (const profile of imported) await saveProfile(profile);
+      setMessage(`IMPORTED ${imported.length} PROFILE${imported.length === 1 ? '' : 'S'}.`);
+      refresh();
+    } catch (err: any) {
+      console.error("Profile import error", err);
+      setError('IMPORT FAILED: ' + (err?.message || 'Unknown error.'));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto font-mono pb-20">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 bg-black p-4 border-2 border-white/50 gap-4">
+        <h2 className="text-[#ccff00] text-xl font-bold">&gt;&gt;&gt; STYLE_PROFILES</h2>
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="bg-white text-black font-bold px-4 py-2 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" /> IMPORT
+          </button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => profiles && handleExport(profiles, `profiles${PROFILE_FILE_SUFFIX}`)}
+            disabled={!profiles || profiles.length === 0}
+            className="bg-white text-black font-bold px-4 py-2 border-2 border-black hover:bg-[#ccff00] flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" /> EXPORT_ALL
+          </button>
+          <button
+            onClick={() => { setEditing(null); setMessage(null); }}
+            disabled={editing !== undefined}
+            className="bg-[#ccff00] text-black font-bold px-4 py-2 border-2 border-black hover:bg-white flex items-center gap-2 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" /> NEW_PROFILE
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mb-6 bg-black text-red-500 p-3 border-2 border-red-500 font-bold">&gt; {error}</div>}
+      {message && <div className="mb-6 bg-black text-[#ccff00] p-3 border-2 border-[#ccff00] font-bold">&gt; {message}</div>}
+
+      {editing !== undefined && (
+        <StyleProfileEditor
+          key={editing?.id ?? 'new'}
+          profile={editing}
+          settings={settings}
+          onSave={handleSave}
+          onCancel={() => setEditing(undefined)}
+        />
+      )}
+
+      {profiles === null ? (
+        <div className="flex justify-center p-10">
+          <Loader2 className="w-8 h-8 text-black animate-spin" />
+        </div>
+      ) : profiles.length === 0 ? (
+        <div className="bg-white border-4 border-black p-8 text-center text-xl text-gray-500">NO PROFILES YET.</div>
+      ) : (
+        <div className="space-y-4">
+          {profiles.map(profile => (
+            <div key={profile.id} className="bg-white border-4 border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] p-3 flex gap-4 text-black">
+              <span className="w-8 h-8 shrink-0 border-2 border-black" style={{ backgroundColor: profile.attributes.inkColor }} title="Ink colour" />
+              <div className="flex-1 min-w-0">
+                <div className="text-lg font-bold truncate">
+                  {profile.name}
+                  {profile.id === activeProfileId && <span className="ml-2 text-sm bg-[#ccff00] px-1">IN USE</span>}
+                </div>
+                <div className="text-sm text-gray-500">
+                  {profile.samples.length} sample(s) · slant {profile.attributes.slant}° · {PAPER_LABELS[profile.attributes.paper].toLowerCase()} paper · spacing {profile.attributes.lineSpacing}%
+                </div>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <button onClick={() => handleUse(profile)} className="bg-[#ccff00] font-bold px-3 py-1 border-2 border-black hover:bg-white flex items-center gap-1">
+                    <CheckCircle2 className="w-4 h-4" /> USE
+                  </button>
+                  <button onClick={() => { setEditing(profile); setMessage(null); }} disabled={editing !== undefined} className="bg-white font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-1 disabled:opacity-50">
+                    <Pencil className="w-4 h-4" /> EDIT
+                  </button>
+                  <button
+                    onClick={() => handleExport([profile], `${profile.name.replace(/[^\w-]+/g, '_') || 'profile'}${PROFILE_FILE_SUFFIX}`)}
+                    className="bg-white font-bold px-3 py-1 border-2 border-black hover:bg-[#ccff00] flex items-center gap-1"
+                  >
+                    <Download className="w-4 h-4" /> EXPORT
+                  </button>
+                  <button onClick={() => handleDelete(profile)} className="bg-white font-bold px-3 py-1 border-2 border-black hover:bg-red-500 hover:text-white flex items-center gap-1">
+                    <Trash2 className="w-4 h-4" /> DELETE
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,8 +7,11 @@ interface UploadZoneProps {
   file: File | null;
   previewUrl: string | null;
   onFileSelect: (file: File) => void;
+  /** When set together with `multiple`, receives every dropped/selected file instead of just the first. */
+  onFilesSelect?: (files: File[]) => void;
   onClear: () => void;
   accept?: string;
+  multiple?: boolean;
   variant?: 'retro-question' | 'retro-handwriting' | 'default';
 }
 
@@ -18,22 +21,31 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
   file,
   previewUrl,
   onFileSelect,
+  onFilesSelect,
   onClear,
   accept = "image/*",
+  multiple = false,
   variant = 'default'
 }) => {
+  const selectFiles = useCallback((files: FileList | null) => {
+    if (!files || !files[0]) return;
+    if (multiple && onFilesSelect) {
+      onFilesSelect(Array.from(files));
+    } else {
+      onFileSelect(files[0]);
+    }
+  }, [multiple, onFileSelect, onFilesSelect]);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onFileSelect(e.dataTransfer.files[0]);
-    }
-  }, [onFileSelect]);
+    selectFiles(e.dataTransfer.files);
+  }, [selectFiles]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
-    }
+    selectFiles(e.target.files);
+    // Allow picking the same file again
+    e.target.value = '';
   };
 
   // --- RETRO QUESTION STYLE (Lime Green Box) ---
@@ -53,6 +65,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
             type="file" 
             onChange={handleChange} 
             accept={accept} 
+            multiple={multiple}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20" 
           />
           
@@ -104,6 +117,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
             type="file" 
             onChange={handleChange} 
             accept={accept} 
+            multiple={multiple}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20" 
           />
           
@@ -149,6 +163,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
         type="file" 
         onChange={handleChange} 
         accept={accept} 
+        multiple={multiple}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" 
       />
       <div className="w-16 h-16 bg-white rounded-full shadow-sm flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
@@ -0,0 +1,61 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, HelpCircle, ShieldCheck } from 'lucide-react';
+import { CheckStatus, StructuredSolution, VerificationConfidence, VerificationReport } from '../types';
+
+interface VerificationPanelProps {
+  report: VerificationReport;
+  solution: StructuredSolution;
+}
+
+const CONFIDENCE_STYLES: Record<VerificationConfidence, string> = {
+  high: 'bg-[#ccff00] text-black',
+  medium: 'bg-yellow-300 text-black',
+  low: 'bg-red-500 text-white',
+  unverified: 'bg-gray-300 text-black',
+};
+
+const StatusIcon: React.FC<{ status: CheckStatus }> = ({ status }) => {
+  if (status === 'verified') return <CheckCircle2 className="w-5 h-5 text-green-600 shrink-0" />;
+  if (status === 'suspicious') return <AlertTriangle className="w-5 h-5 text-red-500 shrink-0" />;
+  return <HelpCircle className="w-5 h-5 text-gray-400 shrink-0" />;
+};
+
+export const VerificationPanel: React.FC<VerificationPanelProps> = ({ report, solution }) => (
+  <div className="mb-6 bg-white border-4 border-black p-4 font-mono text-black">
+    <div className="flex flex-wrap items-center gap-3 mb-3">
+      <ShieldCheck className="w-6 h-6" />
+      <span className="font-bold text-lg">ANSWER_CHECK</span>
+      <span className={`px-2 font-bold uppercase ${CONFIDENCE_STYLES[report.confidence]}`}>
+        {report.confidence === 'unverified' ? 'UNVERIFIED' : `${report.confidence} CONFIDENCE`}
+      </span>
+      <span className="text-gray-500">&gt; {report.summary}</span>
+    </div>
+
+    <div className="flex items-start gap-2 border-b-2 border-dashed border-black/20 pb-2 mb-2">
+      <StatusIcon status={report.finalAnswer.status} />
+      <div>
+        <span className="font-bold">FINAL ANSWER:</span> {solution.finalAnswer}
+        <span className="block text-sm text-gray-500">{report.finalAnswer.detail}</span>
+      </div>
+    </div>
+
+    <ul className="space-y-1">
+      {report.steps.map(check => {
+        const step = solution.steps[check.stepIndex];
+        return (
+          <li
+            key={check.stepIndex}
+            className={`flex items-start gap-2 ${check.status === 'suspicious' ? 'bg-red-50 border-l-4 border-red-500 pl-2' : ''}`}
+          >
+            <StatusIcon status={check.status} />
+            <div className="min-w-0">
+              <span className="font-bold">STEP {check.stepIndex + 1}:</span> {step?.explanation}
+              {step?.expression && <span className="block whitespace-pre-wrap text-sm">{step.expression}</span>}
+              <span className="block text-sm text-gray-500">{check.detail}</span>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
@@ -1,6 +1,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+// Handwriting fonts for the local page renderer, bundled so it works offline
+import '@fontsource/caveat/400.css';
+import '@fontsource/patrick-hand/400.css';
+import '@fontsource/indie-flower/400.css';
+import '@fontsource/homemade-apple/400.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,136 @@
+import { AppSettings, CostReport, GeneratedPage, PageLayoutOptions, ProcessingState, ProcessingStep, StepModels, StructuredSolution, VerificationReport } from "../types";
+import { createPipelineControl, PipelineControl, PipelineServices, runPipeline, toProcessingState } from "./pipeline";
+import { DEFAULT_SETTINGS } from "./settingsService";
+import { spendingCapMessage } from "./costService";
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export type BatchItemStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  label: string;
+  status: BatchItemStatus;
+  state: ProcessingState;
+  problemText?: string;
+  solution?: StructuredSolution;
+  verification?: VerificationReport;
+  solutionPages?: string[];
+  pages?: GeneratedPage[];
+  validationReason?: string;
+  models?: StepModels;
+  cost?: CostReport;
+  error?: string;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  settings?: AppSettings;
+  /** Applied to every item, so the whole batch is handed in on the same paper. */
+  layout?: PageLayoutOptions;
+  /** Cancels every queued and running item. */
+  signal?: AbortSignal;
+  onItemUpdate: (item: BatchItem) => void;
+}
+
+export const createBatchItem = (file: File, index: number): BatchItem => ({
+  id: `${Date.now()}-${index}-${file.name}`,
+  file,
+  label: file.name,
+  status: 'queued',
+  state: { step: ProcessingStep.IDLE, message: 'Queued', progress: 0 },
+});
+
+/**
+ * Solves each queued item against the same handwriting reference.
+ * At most `concurrency` pipelines run at once; items start in queue order.
+ * Resolves once every item has settled. Individual failures don't stop the batch.
+ */
+export const runBatch = async (
+  items: BatchItem[],
+  handwritingFile: File,
+  services: PipelineServices,
+  options: BatchOptions
+): Promise<BatchItem[]> => {
+  const { settings, layout, signal, onItemUpdate } = options;
+  const concurrency = Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, options.concurrency ?? 1));
+  const results: BatchItem[] = [...items];
+  const activeControls = new Set<PipelineControl>();
+  let nextIndex = 0;
+  // A rejected key fails every remaining item the same way, so stop asking
+  let haltMessage: string | null = null;
+
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    results[index] = { ...results[index], ...patch };
+    onItemUpdate(results[index]);
+  };
+
+  const cancelAll = () => activeControls.forEach(control => control.cancel());
+  signal?.addEventListener('abort', cancelAll, { once: true });
+
+  const worker = async () => {
+    while (nextIndex < results.length) {
+      const index = nextIndex++;
+      const item = results[index];
+      if (item.status !== 'queued') continue;
+
+      if (signal?.aborted) {
+        update(index, { status: 'cancelled', state: { step: ProcessingStep.IDLE, message: 'Cancelled', progress: 0 } });
+        continue;
+      }
+      // Checked before every item, so a batch stops once the month's spending cap is reached
+      haltMessage = haltMessage ?? spendingCapMessage(settings ?? DEFAULT_SETTINGS);
+      if (haltMessage) {
+        update(index, { status: 'failed', error: haltMessage, state: { step: ProcessingStep.ERROR, message: haltMessage, progress: 0 } });
+        continue;
+      }
+
+      const control = createPipelineControl();
+      activeControls.add(control);
+      update(index, { status: 'running', startedAt: Date.now() });
+
+      const result = await runPipeline(
+        { questionFile: item.file, handwritingFile },
+        services,
+        {
+          settings,
+          layout,
+          control,
+          onEvent: (event) => {
+            const state = toProcessingState(event);
+            if (state) update(index, { state });
+          }
+        }
+      );
+      activeControls.delete(control);
+
+      if (result.status === 'success') {
+        update(index, {
+          status: 'completed',
+          problemText: result.problemText,
+          solution: result.solution,
+          verification: result.verification,
+          solutionPages: result.solutionPages,
+          pages: result.pages,
+          validationReason: result.validation.reason,
+          models: result.models,
+          cost: result.cost,
+          completedAt: Date.now()
+        });
+      } else if (result.status === 'cancelled') {
+        update(index, { status: 'cancelled', state: { step: ProcessingStep.IDLE, message: 'Cancelled', progress: 0 } });
+      } else {
+        // A bad key, missing model or spent quota would fail every remaining item the same way
+        if (result.kind !== 'exhausted') haltMessage = result.message;
+        update(index, { status: 'failed', error: result.message, completedAt: Date.now() });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  signal?.removeEventListener('abort', cancelAll);
+  return results;
+};
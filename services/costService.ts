@@ -0,0 +1,106 @@
+import { AppSettings, CallUsage, CostReport, ModelPrice, UsageTotals } from "../types";
+
+const STORAGE_KEY = 'mathmimic.spending';
+
+interface MonthlySpend {
+  month: string; // YYYY-MM, local time
+  total: number;
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  thinkingTokens: 0,
+  images: 0,
+  retries: 0,
+  cost: 0,
+};
+
+export const EMPTY_COST_REPORT: CostReport = { ...EMPTY_TOTALS, byStep: {}, unpricedModels: [] };
+
+/**
+ * Estimated USD for one call. Null when the model has no entry in the price table.
+ */
+export const estimateCallCost = (usage: CallUsage, pricing: Record<string, ModelPrice>): number | null => {
+  const price = pricing[usage.model];
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.inputPerMillion +
+      (usage.outputTokens + usage.thinkingTokens) * price.outputPerMillion) / 1_000_000 +
+    usage.images * price.perImage
+  );
+};
+
+const addToTotals = (totals: UsageTotals, usage: CallUsage, cost: number): UsageTotals => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + usage.inputTokens,
+  outputTokens: totals.outputTokens + usage.outputTokens,
+  thinkingTokens: totals.thinkingTokens + usage.thinkingTokens,
+  images: totals.images + usage.images,
+  retries: totals.retries + usage.retries,
+  cost: totals.cost + cost,
+});
+
+/**
+ * Folds one call into a report; used both to build a run's report and to extend it
+ * when pages are regenerated later.
+ */
+export const addToCostReport = (report: CostReport, usage: CallUsage, pricing: Record<string, ModelPrice>): CostReport => {
+  const cost = estimateCallCost(usage, pricing);
+  const unpriced = cost === null && !report.unpricedModels.includes(usage.model);
+  return {
+    ...addToTotals(report, usage, cost ?? 0),
+    byStep: { ...report.byStep, [usage.step]: addToTotals(report.byStep[usage.step] ?? EMPTY_TOTALS, usage, cost ?? 0) },
+    unpricedModels: unpriced ? [...report.unpricedModels, usage.model] : report.unpricedModels,
+  };
+};
+
+export const buildCostReport = (calls: CallUsage[], pricing: Record<string, ModelPrice>): CostReport =>
+  calls.reduce((report, usage) => addToCostReport(report, usage, pricing), EMPTY_COST_REPORT);
+
+export const formatUsd = (amount: number): string =>
+  `$${amount < 0.01 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2)}`;
+
+const currentMonth = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+
+const readSpend = (): MonthlySpend => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (parsed?.month === currentMonth() && typeof parsed.total === 'number') return parsed;
+  } catch (e) {
+    console.warn("Failed to read monthly spend", e);
+  }
+  // A new month starts from zero
+  return { month: currentMonth(), total: 0 };
+};
+
+/**
+ * Estimated USD spent on model calls this calendar month, on this browser.
+ */
+export const getMonthlySpend = (): number => readSpend().total;
+
+/**
+ * Adds a call's estimated cost to the monthly total. Every billed call goes through
+ * here, including ones from failed or cancelled runs.
+ */
+export const recordSpend = (amount: number) => {
+  if (!(amount > 0)) return;
+  const spend = readSpend();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...spend, total: spend.total + amount }));
+};
+
+export const resetMonthlySpend = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Why a new run may not start, or null while the month is under its cap.
+ */
+export const spendingCapMessage = (settings: AppSettings): string | null => {
+  const cap = settings.monthlySpendingCap;
+  const spent = getMonthlySpend();
+  if (cap <= 0 || spent < cap) return null;
+  return `SPENDING CAP REACHED: ${formatUsd(spent)} of ${formatUsd(cap)} spent this month.`;
+};
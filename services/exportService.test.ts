@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { SolveRun } from '../types';
+import { generateLatex, generateMarkdown } from './exportService';
+
+const run = (transcription: string, solutionPages: string[]) => ({ transcription, solutionPages, pages: [] }) as unknown as SolveRun;
+
+describe('generateLatex', () => {
+  it('typesets the math between words and escapes the prose', () => {
+    const tex = generateLatex(run('Solve x^2 - 5x + 6 = 0 for x ∈ ℝ.', ['Factor: (x-2)(x-3) = 0, so x = 2 or x = 3.\nThat is 50% of the work & more.']));
+    expect(tex).toContain('Solve $x^{2} - 5x + 6 = 0$ for $x \\in  \\mathbb{R}$.');
+    expect(tex).toContain('Factor: $(x-2)(x-3) = 0$, so $x = 2$ or $x = 3$.\n\nThat is 50\\% of the work \\& more.');
+    expect(tex).not.toContain('textasciicircum');
+  });
+
+  it('passes explicit math spans through unchanged', () => {
+    const tex = generateLatex(run('Evaluate $\\int_0^1 x\\,dx$.', ['sqrt(4) = 2']));
+    expect(tex).toContain('Evaluate $\\int_0^1 x\\,dx$.');
+    expect(tex).toContain('$\\sqrt{4} = 2$');
+  });
+
+  it('leaves no character pdflatex cannot typeset', () => {
+    const tex = generateLatex(run('θ ∈ [0, π) and λ ≠ 0', ['∀ε > 0 ∃δ']));
+    expect(tex).toMatch(/^[\x00-\x7f]*$/);
+  });
+});
+
+describe('generateMarkdown', () => {
+  it('escapes Markdown formatting outside math spans', () => {
+    const md = generateMarkdown(run('Simplify 2*x*y + a_1 * a_2', ['- 3 = x_0 - 5\nSo $a_1 * b_1$ stays and [x] is a bracket.']));
+    expect(md).toContain('Simplify 2\\*x\\*y + a\\_1 \\* a\\_2');
+    expect(md).toContain('\\- 3 = x\\_0 - 5\nSo $a_1 * b_1$ stays and [x] is a bracket.');
+  });
+});
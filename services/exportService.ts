@@ -0,0 +1,278 @@
+import JSZip from "jszip";
+import { Document, ImageRun, Packer, Paragraph } from "docx";
+import { MathNode, PdfExportSettings, SolveRun } from "../types";
+import { generatePDF, PdfSection } from "./pdfService";
+import { parseMathText, toLatex } from "./mathNotation";
+
+/**
+ * Turns a free-form label into something safe to use as a file name.
+ */
+export const toSafeFileName = (label: string, fallback = 'file'): string => {
+  const cleaned = label
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[^a-z0-9_-]+/gi, '_')
+    .replace(/^_+|_+$/g, '');
+  return cleaned || fallback;
+};
+
+/**
+ * Expands a PDF file name template: `{date}` becomes today's date and `{problem}`
+ * the first few words of the problem statement.
+ */
+export const resolveExportBaseName = (template: string, problemText?: string): string => {
+  const date = new Date().toISOString().slice(0, 10);
+  const problem = toSafeFileName((problemText ?? '').split(/\s+/).slice(0, 6).join(' '), 'problem');
+  const name = template.replace(/\{date\}/g, date).replace(/\{problem\}/g, problem);
+  return toSafeFileName(name, 'MathSolution');
+};
+
+export const resolvePdfFileName = (template: string, problemText?: string): string =>
+  `${resolveExportBaseName(template, problemText)}.pdf`;
+
+/**
+ * One PDF per problem, bundled into a single zip.
+ */
+export const generatePerProblemZip = async (sections: PdfSection[], options?: PdfExportSettings): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const [index, section] of sections.entries()) {
+    const name = `${String(index + 1).padStart(2, '0')}_${toSafeFileName(section.title, 'problem')}.pdf`;
+    zip.file(name, await generatePDF(section.images, options, {
+      problemText: section.subtitle,
+      pageTexts: section.pageTexts
+    }));
+  }
+  return zip.generateAsync({ type: "blob" });
+};
+
+export type ImageExportFormat = 'png' | 'jpeg';
+
+interface EncodedImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decodes a page image and re-encodes it in the requested format.
+ */
+const encodePageImage = (src: string, format: ImageExportFormat, quality = 0.92): Promise<EncodedImage> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas 2D context unavailable"));
+        return;
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      canvas.toBlob(async blob => {
+        if (!blob) {
+          reject(new Error("Could not encode page image"));
+          return;
+        }
+        resolve({ data: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height });
+      }, format === 'png' ? 'image/png' : 'image/jpeg', quality);
+    };
+    img.onerror = () => reject(new Error("Could not load page image"));
+    img.src = src;
+  });
+
+const pageFileName = (pageNumber: number, extension: string) =>
+  `page_${String(pageNumber).padStart(2, '0')}.${extension}`;
+
+/**
+ * Every page image of a run as its own file, zipped.
+ */
+export const generatePageImagesZip = async (run: SolveRun, format: ImageExportFormat): Promise<Blob> => {
+  const zip = new JSZip();
+  const extension = format === 'png' ? 'png' : 'jpg';
+  for (const page of run.pages) {
+    const { data } = await encodePageImage(page.imageUrl, format);
+    zip.file(pageFileName(page.pageNumber, extension), data);
+  }
+  return zip.generateAsync({ type: "blob" });
+};
+
+// Usable area of an A4 page with Word's default 1in margins, in px at 96dpi
+const DOCX_CONTENT_WIDTH = 602;
+const DOCX_CONTENT_HEIGHT = 930;
+
+/**
+ * A Word document with one page image per page, scaled to fit without distortion.
+ */
+export const generateDocx = async (run: SolveRun): Promise<Blob> => {
+  const sections = [];
+  for (const page of run.pages) {
+    const image = await encodePageImage(page.imageUrl, 'png');
+    const scale = Math.min(DOCX_CONTENT_WIDTH / image.width, DOCX_CONTENT_HEIGHT / image.height);
+    sections.push({
+      children: [
+        new Paragraph({
+          children: [
+            new ImageRun({
+              type: 'png',
+              data: image.data,
+              transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+              altText: { name: `Page ${page.pageNumber}`, title: `Page ${page.pageNumber}`, description: page.sourceText },
+            }),
+          ],
+        }),
+      ],
+    });
+  }
+
+  const doc = new Document({
+    title: run.transcription.split('\n')[0].slice(0, 80),
+    description: run.transcription,
+    creator: 'MathMimic',
+    sections,
+  });
+  return Packer.toBlob(doc);
+};
+
+// Math spans that should reach LaTeX (and Markdown renderers with math support) untouched
+const MATH_SPAN = /(\$\$[\s\S]+?\$\$|\$[^$\n]+?\$|\\\([\s\S]+?\\\)|\\\[[\s\S]+?\\\])/;
+
+/**
+ * Backslash-escapes what Markdown would read as formatting, so "2*x*y" stays a product
+ * and "a_1 + a_2" keeps its underscores. Math spans are left alone.
+ */
+const escapeMarkdown = (text: string) =>
+  text
+    .split(MATH_SPAN)
+    .map((part, i) => (i % 2 === 1
+      ? part
+      : part
+        // Brackets stay: an escaped "\[" reads as display math to some renderers
+        .replace(/[\\`*_~<]/g, '\\$&')
+        // Headings, quotes and list bullets only start a line
+        .replace(/^(\s*)([#>]|[-+](?=\s))/gm, '$1\\$2')))
+    .join('');
+
+/**
+ * The transcription and step-by-step solution as Markdown. Math spans in the text are
+ * left as-is, so renderers with math support typeset them; the rest is escaped.
+ */
+export const generateMarkdown = (run: SolveRun): string => {
+  const lines = ['# Problem', '', escapeMarkdown(run.transcription.trim()), '', '## Solution', ''];
+  run.solutionPages.forEach((text, index) => {
+    if (run.solutionPages.length > 1) lines.push(`### Page ${index + 1}`, '');
+    lines.push(escapeMarkdown(text.trim()), '');
+  });
+  return lines.join('\n');
+};
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '&': '\\&', '%': '\\%', '#': '\\#', '_': '\\_',
+  '{': '\\{', '}': '\\}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+};
+
+// Runs of words; whatever lies between them on a line is math. Function names and
+// differentials are math even though they look like words.
+const PROSE_RUN = /(?:(?<![\\\w])(?!(?:arcsin|arccos|arctan|sinh|cosh|tanh|sin|cos|tan|sec|csc|cot|log|ln|exp|lim|det|gcd|max|min|dx|dy|dt)\b)[A-Za-z\u00C0-\u024F][a-z\u00DF-\u024F'’]+(?:-[A-Za-z\u00C0-\u024F][a-z\u00DF-\u024F'’]*)*(?![\w\u00C0-\u024F])[.,:;!?]*\s*)+/g;
+
+// Numbering and punctuation that reads the same outside math mode ("Step 1:")
+const PLAIN_RUN = /^[\s\d.,:;!?()'"%&-]*$/;
+
+const escapeProse = (text: string) => text.replace(/[\\&%#_{}~^]/g, char => LATEX_SPECIALS[char]);
+
+/**
+ * One parsed line as LaTeX: words as text, the math between them typeset in $…$.
+ */
+const latexLine = (nodes: MathNode[]): string => {
+  const segments: { prose: boolean; nodes: MathNode[] }[] = [];
+  const push = (prose: boolean, node: MathNode) => {
+    const last = segments[segments.length - 1];
+    if (last?.prose === prose) last.nodes.push(node);
+    else segments.push({ prose, nodes: [node] });
+  };
+  for (const node of nodes) {
+    if (node.kind !== 'text') {
+      push(false, node);
+      continue;
+    }
+    let index = 0;
+    for (const match of node.text.matchAll(PROSE_RUN)) {
+      if (match.index! > index) push(false, { kind: 'text', text: node.text.slice(index, match.index) });
+      push(true, { kind: 'text', text: match[0] });
+      index = match.index! + match[0].length;
+    }
+    if (index < node.text.length) push(false, { kind: 'text', text: node.text.slice(index) });
+  }
+
+  return segments.map(({ prose, nodes: run }) => {
+    const plain = run.every(node => node.kind === 'text') ? run.map(node => (node.kind === 'text' ? node.text : '')).join('') : null;
+    if (plain !== null && (prose || PLAIN_RUN.test(plain))) return escapeProse(plain);
+    // Spaces and closing punctuation stay outside the math, where the sentence has them
+    const [, before, math, after] = /^(\s*)([\s\S]*?)((?<!\\)[.,;:!?]*\s*)$/.exec(toLatex(run))!;
+    return `${before}$${math}$${after}`;
+  }).join('');
+};
+
+/**
+ * Turns solution text into LaTeX: explicit math spans ($…$, \(…\), \[…\]) pass through
+ * unchanged, plain-text math (x^2, sqrt(x), (a+b)/c) is parsed and typeset in math mode,
+ * and the prose around it is escaped.
+ */
+const toLatexText = (text: string) =>
+  text
+    .split(MATH_SPAN)
+    .map((part, i) => {
+      // split() with a capture group puts the math spans at odd indices
+      if (i % 2 === 1) return part;
+      const [, before, body, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(part)!;
+      // Keep the line structure of the solution: every line its own paragraph
+      const paragraphs = (space: string) => (space.includes('\n') ? '\n\n' : space);
+      return paragraphs(before) + parseMathText(body).map(latexLine).join('\n\n') + paragraphs(after);
+    })
+    .join('');
+
+/**
+ * A standalone LaTeX document with the transcription and the solution.
+ */
+export const generateLatex = (run: SolveRun): string => {
+  const sections = run.solutionPages
+    .map((text, index) =>
+      run.solutionPages.length > 1
+        ? `\\subsection*{Page ${index + 1}}\n${toLatexText(text.trim())}`
+        : toLatexText(text.trim())
+    )
+    .join('\n\n');
+
+  return [
+    '\\documentclass{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage{amsmath,amssymb}',
+    '\\begin{document}',
+    '',
+    '\\section*{Problem}',
+    toLatexText(run.transcription.trim()),
+    '',
+    '\\section*{Solution}',
+    sections,
+    '',
+    '\\end{document}',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Triggers a browser download for a generated blob.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight after click() can cancel the download in some browsers; FileSaver,
+  // which jsPDF's save() uses, waits 40 seconds too
+  setTimeout(() => URL.revokeObjectURL(url), 40_000);
+};
@@ -0,0 +1,68 @@
+import { DiffSegment, PageFidelity } from "../types";
+import { toHandwritingText } from "./mathNotation";
+
+/**
+ * Words, numbers and individual symbols. Every digit and operator counts on its own,
+ * so a hallucinated "7" instead of "1" costs as much as a dropped word.
+ */
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z]+|\d+(?:\.\d+)?|[^\s\w]/g) ?? [];
+
+/**
+ * Token-level diff via longest common subsequence. Adjacent tokens of the same kind are merged.
+ */
+export const diffTokens = (expected: string[], actual: string[]): DiffSegment[] => {
+  const n = expected.length;
+  const m = actual.length;
+  // lcs[i][j] = LCS length of expected[i..] and actual[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i] === actual[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment['kind'], token: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.text += ` ${token}`;
+    } else {
+      segments.push({ kind, text: token });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (expected[i] === actual[j]) {
+      push('same', expected[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('missing', expected[i++]);
+    } else {
+      push('extra', actual[j++]);
+    }
+  }
+  while (i < n) push('missing', expected[i++]);
+  while (j < m) push('extra', actual[j++]);
+  return segments;
+};
+
+/**
+ * Compares the text a page was meant to contain with what was read back from it.
+ * The score is the token F1 (0–100): dropped lines and invented content both lower it.
+ * Both sides are normalised to handwriting notation first, so "x^2" and "x²" match.
+ */
+export const measureFidelity = (intendedText: string, readText: string): PageFidelity => {
+  const expected = tokenize(toHandwritingText(intendedText));
+  const actual = tokenize(toHandwritingText(readText));
+  const diff = diffTokens(expected, actual);
+  const matched = diff
+    .filter(segment => segment.kind === 'same')
+    .reduce((sum, segment) => sum + segment.text.split(' ').length, 0);
+  const total = expected.length + actual.length;
+  const score = total === 0 ? 100 : Math.round((200 * matched) / total);
+  return { score, readText, diff };
+};
@@ -1,4 +1,15 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Schema, Type } from "@google/genai";
+import { CallUsage, ChatContext, ChatReply, ChatTurn, GeneratedImage, ModelStep, StructuredSolution, ValidationResult } from "../types";
+import { ModelProvider, ServiceCallOptions } from "./modelProvider";
+import { DEFAULT_SETTINGS } from "./settingsService";
+import { parseStructuredSolution } from "./solutionFormat";
+import { DEFAULT_PAGE_LAYOUT, describeLayoutForPrompt } from "./pageLayout";
+import { toHandwritingText } from "./mathNotation";
+import { createRequestScheduler } from "./requestScheduler";
+import { AuthError, MalformedResponseError, SafetyBlockedError, toServiceError } from "./serviceErrors";
+import { runModelChain } from "./modelChain";
+import { estimateCallCost, recordSpend } from "./costService";
+import { getCachedResponse, hashRequest, putCachedResponse } from "./responseCache";
 
 let manualApiKey: string | null = null;
 
@@ -19,11 +30,113 @@ const getAiClient = () => {
   const key = manualApiKey || envKey;
   
   if (!key) {
-    throw new Error("API Key not found. Please select a project or enter a key.");
+    throw new AuthError("API Key not found. Please select a project or enter a key.");
   }
   return new GoogleGenAI({ apiKey: key });
 };
 
+// One scheduler for every Gemini call, so parallel pages back off together when the quota runs out
+const requestScheduler = createRequestScheduler();
+
+// Finish reasons that mean the output was withheld by a filter
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+/**
+ * Token and image counts from a response's usage metadata.
+ */
+const readUsage = (response: GenerateContentResponse, step: ModelStep, model: string, retries: number): CallUsage => {
+  const metadata = response.usageMetadata;
+  const imageTokens = (metadata?.candidatesTokensDetails ?? [])
+    .filter(detail => detail.modality === 'IMAGE')
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+  const images = (response.candidates ?? [])
+    .flatMap(candidate => candidate.content?.parts ?? [])
+    .filter(part => part.inlineData).length;
+  return {
+    step,
+    model,
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: Math.max(0, (metadata?.candidatesTokenCount ?? 0) - imageTokens),
+    thinkingTokens: metadata?.thoughtsTokenCount ?? 0,
+    images,
+    retries,
+  };
+};
+
+/**
+ * `ai.models.generateContent` through the shared scheduler: 429s are retried with backoff
+ * up to `settings.rateLimitRetries` times. Failures leave as ServiceErrors, and a
+ * response withheld by the safety filters is thrown as a SafetyBlockedError.
+ * Every answered call is priced into the monthly total and reported through `onUsage`.
+ */
+const generateContent = async (ai: GoogleGenAI, step: ModelStep, options: ServiceCallOptions, params: GenerateContentParameters) => {
+  const settings = options.settings ?? DEFAULT_SETTINGS;
+  let tries = 0;
+  let response: GenerateContentResponse;
+  try {
+    response = await requestScheduler.run(() => {
+      tries++;
+      return ai.models.generateContent(params);
+    }, {
+      signal: options.signal,
+      maxRetries: settings.rateLimitRetries,
+      onRateLimited: options.onRateLimited,
+    });
+  } catch (error) {
+    throw toServiceError(error, options.signal);
+  }
+
+  // Blocked responses are billed too, so they are counted before the checks below
+  const usage = readUsage(response, step, params.model, tries - 1);
+  recordSpend(estimateCallCost(usage, settings.pricing) ?? 0);
+  options.onUsage?.(usage);
+
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(response.promptFeedback?.blockReasonMessage || `Prompt blocked by ${params.model} (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`${params.model} withheld its output (${finishReason}).`);
+  }
+  return response;
+};
+
+/**
+ * generateContent behind the local response cache. The key hashes the model, prompt,
+ * config and inline image bytes, so only an identical request gets a cached answer.
+ * `read` turns the response into the value that is returned and stored; it should throw
+ * for responses that must not be kept, and empty values are never stored.
+ * Page images are only cached when `responseCache.pageImages` is on.
+ */
+const cachedContent = async <T>(
+  ai: GoogleGenAI,
+  step: ModelStep,
+  options: ServiceCallOptions,
+  params: GenerateContentParameters,
+  read: (response: GenerateContentResponse) => T
+): Promise<T> => {
+  const { responseCache } = options.settings ?? DEFAULT_SETTINGS;
+  const cacheable = responseCache.enabled && (step !== 'image' || responseCache.pageImages);
+  const key = cacheable
+    ? await hashRequest({ model: params.model, contents: params.contents, config: { ...params.config, abortSignal: undefined } })
+    : null;
+
+  if (key && !options.refreshCache) {
+    const hit = await getCachedResponse(key).catch(e => {
+      console.warn("Response cache read failed", e);
+      return undefined;
+    });
+    if (hit !== undefined) return hit as T;
+  }
+
+  const value = read(await generateContent(ai, step, options, params));
+  if (key && value) {
+    await putCachedResponse(key, step, params.model, value).catch(e => console.warn("Response cache write failed", e));
+  }
+  return value;
+};
+
 /**
  * Converts a File object to a Base64 string for the API.
  */
@@ -42,61 +155,56 @@ const fileToGenerativePart = async (file: File): Promise<string> => {
 };
 
 /**
- * Helper to check if an error is a permission denied error (403).
+ * Response schema for the solver; mirrors StructuredSolution.
  */
-const isPermissionError = (error: any): boolean => {
-  const msg = error?.message || '';
-  const str = JSON.stringify(error);
-  return (
-    msg.includes('403') ||
-    msg.includes('PERMISSION_DENIED') ||
-    msg.includes('The caller does not have permission') ||
-    str.includes('403') ||
-    str.includes('PERMISSION_DENIED')
-  );
+const SOLUTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    restatement: { type: Type.STRING, description: "The problem restated in one or two sentences." },
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          explanation: { type: Type.STRING, description: "What this step does, in plain words." },
+          expression: { type: Type.STRING, description: "The math for this step, plain text (e.g. x^2 - 4x + 3 = 0)." },
+        },
+        required: ["explanation"],
+        propertyOrdering: ["explanation", "expression"],
+      },
+    },
+    finalAnswer: { type: Type.STRING },
+    diagramHints: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Sketches a student would draw, if the problem calls for any.",
+    },
+  },
+  required: ["restatement", "steps", "finalAnswer"],
+  propertyOrdering: ["restatement", "steps", "finalAnswer", "diagramHints"],
 };
 
 /**
- * Helper to extract text from response and parse JSON solution.
+ * parseStructuredSolution, with a rejected answer reported as a malformed response.
  */
-const parseSolutionResponse = (response: GenerateContentResponse): string[] => {
+const parseSolution = (text: string): StructuredSolution => {
   try {
-    let text = response.text || "[]";
-    // Sanitize: Remove markdown code blocks if the model included them
-    text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    const result = JSON.parse(text);
-    if (Array.isArray(result)) return result;
-    // If it parsed but isn't an array, try to force it
-    return [JSON.stringify(result)];
-  } catch (e) {
-    console.warn("Failed to parse solution JSON, falling back to raw text", e);
-    // Return the whole text as one page, preventing 1 line per page issues
-    return [response.text || ""];
+    return parseStructuredSolution(text);
+  } catch (error: any) {
+    throw new MalformedResponseError(error?.message || "Malformed solution.", error);
   }
 };
 
-/**
- * Clean text to remove markdown that might confuse the handwriting generator.
- */
-const cleanTextForHandwriting = (text: string): string => {
-  return text
-    .replace(/\*\*/g, '') // remove bold
-    .replace(/\*/g, '')   // remove italics/bullets
-    .replace(/#{1,6}\s?/g, '')   // remove headers
-    .replace(/`/g, '')   // remove code ticks
-    .replace(/\[|\]/g, '') // remove brackets if they look like json artifacts
-    .trim();
-};
-
 /**
  * Step 1: Transcribe the math problem from the uploaded image.
  */
-export const transcribeMathProblem = async (imageFile: File): Promise<string> => {
+export const transcribeMathProblem = async (imageFile: File, options: ServiceCallOptions = {}): Promise<string> => {
+  const { settings = DEFAULT_SETTINGS, signal } = options;
   const ai = getAiClient();
   const base64Data = await fileToGenerativePart(imageFile);
   
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
+  const { result: text, usage } = await runModelChain(settings, 'transcription', model => cachedContent(ai, 'transcription', options, {
+    model,
     contents: {
       parts: [
         {
@@ -109,79 +217,65 @@ export const transcribeMathProblem = async (imageFile: File): Promise<string> =>
           text: "Transcribe the math problem in this image exactly. If it is handwritten, interpret it carefully. Output only the math problem text/LaTeX."
         }
       ]
+    },
+    config: {
+      abortSignal: signal
     }
-  });
+  }, response => response.text || ""));
+  options.onModelUsed?.('transcription', usage);
 
-  return response.text || "Could not read problem.";
+  return text || "Could not read problem.";
 };
 
 /**
  * Step 2: Solve the math problem using a thinking model.
- * Falls back to Flash if Pro is not available.
+ * The answer is constrained to SOLUTION_SCHEMA and validated; pagination happens locally.
+ * Moves down the solver's fallback chain (Flash by default) when the primary fails.
  */
-export const solveMathProblem = async (problemText: string): Promise<string[]> => {
+export const solveMathProblem = async (problemText: string, options: ServiceCallOptions = {}): Promise<StructuredSolution> => {
+  const { settings = DEFAULT_SETTINGS, signal } = options;
   const ai = getAiClient();
   
-  const prompt = `Solve the following math problem step-by-step. 
+  const prompt = `Solve the following math problem step-by-step, the way a student would write it in an exam.
     Problem: ${problemText}
     
-    Format the output as a JSON array of strings.
-    CRITICAL INSTRUCTION: Each string in the array represents ONE FULL PAGE of handwritten notes.
-    - You MUST combine multiple logical steps into a single string to fill the page naturally, like a student writing an exam.
-    - Do NOT separate every small step into a new array element. One array element = One full Page.
-    - Each page (array element) should contain roughly 10-15 lines of text.
-    - Use standard single spacing.
-    - Write in PLAIN TEXT. Do NOT use Markdown formatting (no bold **, no headers ##).
-    - Use '\\n' for new lines within the string.
-    
-    Example output format:
-    ["Step 1: derivation...\\nStep 2: calculation...\\nStep 3: substitution...", "Step 4: final result..."]`;
+    - Restate the problem briefly.
+    - Give each logical step an explanation and, where there is math, the expression for that step.
+    - Write math in PLAIN TEXT (e.g. x^2, sqrt(x), (a)/(b)). Do NOT use Markdown.
+    - Finish with the final answer.
+    - Only add diagram hints if a student would actually draw something.`;
 
-  try {
-    // Try with the advanced reasoning model first
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        thinkingConfig: { thinkingBudget: 2048 }
-      }
-    });
-    return parseSolutionResponse(response);
-
-  } catch (error) {
-    if (isPermissionError(error)) {
-      console.warn("Gemini 3 Pro failed with permission error, falling back to Gemini 2.5 Flash.");
-      // Fallback to Flash
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          // Flash also supports thinking, but we use a smaller budget or default
-          thinkingConfig: { thinkingBudget: 1024 } 
-        }
-      });
-      return parseSolutionResponse(response);
+  // The primary gets the full thinking budget, every fallback the smaller one
+  const { result, usage } = await runModelChain(settings, 'solver', (model, index) => cachedContent(ai, 'solver', options, {
+    model,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: SOLUTION_SCHEMA,
+      thinkingConfig: { thinkingBudget: index === 0 ? settings.thinkingBudget.solver : settings.thinkingBudget.solverFallback },
+      abortSignal: signal
     }
-    throw error;
-  }
+  }, response => parseSolution(response.text || "")));
+  options.onModelUsed?.('solver', usage);
+  return result;
 };
 
 /**
  * Step 3: Generate visual pages mimicking the user's handwriting and paper.
- * Falls back to Flash Image if Pro Image is not available.
+ * Moves down the image fallback chain (Flash Image by default) when the primary fails.
  */
 export const generateHandwrittenPage = async (
   referenceImageFile: File,
   textToWrite: string,
-  pageIndex: number
-): Promise<string> => {
+  pageIndex: number,
+  options: ServiceCallOptions = {}
+): Promise<GeneratedImage> => {
+  const { settings = DEFAULT_SETTINGS, signal, layout = DEFAULT_PAGE_LAYOUT } = options;
   const ai = getAiClient();
   const base64Ref = await fileToGenerativePart(referenceImageFile);
   
-  // Clean the text to ensure no digital artifacts appear in the image
-  const cleanText = cleanTextForHandwriting(textToWrite);
+  // Markdown gone and LaTeX turned into the symbols a student would write
+  const cleanText = toHandwritingText(textToWrite);
 
   const prompt = `
     Role: Expert Forger and Document Recreator.
@@ -194,13 +288,16 @@ export const generateHandwrittenPage = async (
     
     Strict Instructions:
     - **Clarity & Contrast**: The generated handwriting MUST be sharp, clear, and highly readable.
-    - **Ink Quality**: Use **DARK, HIGH-CONTRAST** ink (Deep Black or Blue). Ensure high contrast against the paper.
-    - **Background**: Recreate the blank paper texture from the reference image.
+    - **Ink Quality**: ${layout.inkColor
+      ? `Use ink of colour ${layout.inkColor}. Ensure high contrast against the paper.`
+      : 'Use **DARK, HIGH-CONTRAST** ink (Deep Black or Blue). Ensure high contrast against the paper.'}
+    ${describeLayoutForPrompt(layout, pageIndex)}
     - **Handwriting**: Mimic the exact handwriting style from the reference image.
+    - **Math**: Write every fraction a/b as a stacked fraction (numerator over a horizontal bar over denominator), raise exponents (x², x^(n+1)) and lower subscripts, and draw ×, ÷, √ and the other symbols exactly as given.
     - **NO Picture-in-Picture**: Do NOT paste the reference image into the output. The output must be a single, full-page document.
     - **Layout**: Use natural vertical spacing. Fill the page appropriately.
     
-    Content to Write (This is the ONLY text that should appear):
+    Content to Write (Apart from any header and page number above, this is the ONLY text that should appear):
     """
     ${cleanText}
     """
@@ -213,51 +310,35 @@ export const generateHandwrittenPage = async (
         return `data:image/png;base64,${part.inlineData.data}`;
       }
     }
-    throw new Error("No image generated in response");
+    throw new MalformedResponseError("No image generated in response");
   };
 
   try {
-    // Try with High Quality Image Model (gemini-3-pro-image-preview)
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
+    // The primary (gemini-3-pro-image-preview by default) renders at the configured size;
+    // fallbacks (gemini-2.5-flash-image by default) only take the aspect ratio
+    const { result: imageUrl, usage } = await runModelChain(settings, 'image', (model, index) => cachedContent(ai, 'image', options, {
+      model,
       contents: {
         parts: [
-          { text: prompt + " Ensure the image is high resolution (2K) and text is crisp." },
+          {
+            text: prompt + (index === 0
+              ? ` Ensure the image is high resolution (${settings.imageSize}) and text is crisp.`
+              : " IMPORTANT: Output a scanned document style image, not artistic. High legibility.")
+          },
           { inlineData: { mimeType: referenceImageFile.type, data: base64Ref } }
         ]
       },
       config: {
-        imageConfig: {
-           imageSize: "2K",
-           aspectRatio: "3:4" 
-        }
+        imageConfig: index === 0
+          ? { imageSize: settings.imageSize, aspectRatio: settings.aspectRatio }
+          : { aspectRatio: settings.aspectRatio },
+        abortSignal: signal
       }
-    });
+    }, extractImage));
 
-    return extractImage(response);
+    return { imageUrl, model: usage.model, skipped: usage.skipped };
 
   } catch (error) {
-    if (isPermissionError(error)) {
-      console.warn(`Error generating page ${pageIndex + 1} with Pro model. Falling back to Flash Image model.`);
-      
-      // Fallback to Standard Image Model (gemini-2.5-flash-image)
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            { text: prompt + " IMPORTANT: Output a scanned document style image, not artistic. High legibility." },
-            { inlineData: { mimeType: referenceImageFile.type, data: base64Ref } }
-          ]
-        },
-        config: {
-          imageConfig: {
-             aspectRatio: "3:4"
-          }
-        }
-      });
-      
-      return extractImage(response);
-    }
     console.error(`Error generating page ${pageIndex + 1}:`, error);
     throw error;
   }
@@ -269,8 +350,10 @@ export const generateHandwrittenPage = async (
  */
 export const validateSolution = async (
   questionFile: File,
-  generatedImageUrls: string[]
-): Promise<{ valid: boolean; reason?: string }> => {
+  generatedImageUrls: string[],
+  options: ServiceCallOptions = {}
+): Promise<ValidationResult> => {
+  const { settings = DEFAULT_SETTINGS, signal } = options;
   const ai = getAiClient();
   const qBase64 = await fileToGenerativePart(questionFile);
   
@@ -302,9 +385,9 @@ export const validateSolution = async (
     Output JSON: { "valid": boolean, "reason": "short explanation" }
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+  const { result, usage } = await runModelChain(settings, 'validation', async model => {
+    const response = await generateContent(ai, 'validation', options, {
+      model,
       contents: {
         parts: [
           { inlineData: { mimeType: questionFile.type, data: qBase64 } },
@@ -313,17 +396,124 @@ export const validateSolution = async (
         ]
       },
       config: {
-        responseMimeType: "application/json"
+        responseMimeType: "application/json",
+        abortSignal: signal
       }
     });
 
+    try {
+      const text = (response.text || "{}").replace(/```json/g, '').replace(/```/g, '').trim();
+      const json = JSON.parse(text);
+      console.log("Validation Result:", json);
+      return { valid: json.valid === true, reason: json.reason || "Unknown" };
+    } catch (e) {
+      console.error("Validation error", e);
+      // Never wave output through unchecked; let the pipeline retry or report it
+      throw new MalformedResponseError(`Validation could not run: ${(e as Error)?.message || 'unknown error'}`, e);
+    }
+  });
+  options.onModelUsed?.('validation', usage);
+  return result;
+};
+
+/**
+ * Fidelity check: reads a generated page back to plain text, exactly as written.
+ */
+export const readPageText = async (imageUrl: string, options: ServiceCallOptions = {}): Promise<string> => {
+  const { settings = DEFAULT_SETTINGS, signal } = options;
+  const ai = getAiClient();
+  const [header, data] = imageUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || "image/png";
+
+  const { result: response, usage } = await runModelChain(settings, 'ocr', model => generateContent(ai, 'ocr', options, {
+    model,
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data } },
+        {
+          text: "Transcribe every line of handwriting on this page exactly as written, in reading order, one line per line. Do not correct mistakes, do not solve anything, do not add commentary. Plain text only."
+        }
+      ]
+    },
+    config: {
+      abortSignal: signal
+    }
+  }));
+  options.onModelUsed?.('ocr', usage);
+
+  return response.text || "";
+};
+
+/**
+ * Follow-up conversation about a solved problem.
+ * The model may attach a full replacement solution when the user asks for a different approach.
+ */
+export const chatAboutSolution = async (
+  context: ChatContext,
+  history: ChatTurn[],
+  message: string,
+  options: ServiceCallOptions = {}
+): Promise<ChatReply> => {
+  const { settings = DEFAULT_SETTINGS, signal } = options;
+  const ai = getAiClient();
+
+  const systemInstruction = `
+    You are a patient math tutor discussing a problem the student has already solved.
+
+    Problem:
+    ${context.transcription}
+
+    Current solution (one entry per handwritten page):
+    ${context.solutionPages.map((page, i) => `--- Page ${i + 1} ---\n${page}`).join('\n')}
+
+    Answer the student's questions about this solution. Refer to steps by the wording used above.
+    Only if the student asks for a corrected or alternative solution, also provide "revisedPages":
+    a JSON array of strings, one full page of PLAIN TEXT notes each (10-15 lines, '\n' for new lines, no Markdown).
+
+    Output JSON: { "reply": "your answer", "revisedPages": string[] | null }
+  `;
+
+  const { result: response, usage } = await runModelChain(settings, 'chat', model => generateContent(ai, 'chat', options, {
+    model,
+    contents: [
+      ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      { role: 'user', parts: [{ text: message }] }
+    ],
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      abortSignal: signal
+    }
+  }));
+  options.onModelUsed?.('chat', usage);
+
+  try {
     const text = (response.text || "{}").replace(/```json/g, '').replace(/```/g, '').trim();
     const json = JSON.parse(text);
-    console.log("Validation Result:", json);
-    return { valid: json.valid === true, reason: json.reason || "Unknown" };
+    const revisedPages = Array.isArray(json.revisedPages)
+      ? json.revisedPages.filter((p: unknown): p is string => typeof p === 'string' && p.trim().length > 0)
+      : [];
+    return {
+      text: typeof json.reply === 'string' ? json.reply : text,
+      revisedPages: revisedPages.length > 0 ? revisedPages : undefined
+    };
   } catch (e) {
-    console.error("Validation error", e);
-    // If validation fails technically (e.g. JSON parse error), we assume true to avoid frustrating the user.
-    return { valid: true, reason: "Validation bypassed due to technical error" };
+    console.warn("Failed to parse chat JSON, falling back to raw text", e);
+    return { text: response.text || "" };
   }
+};
+
+/**
+ * Gemini-backed implementation of the model provider contract.
+ */
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  requiresApiKey: true,
+  transcribeMathProblem,
+  solveMathProblem,
+  generateHandwrittenPage,
+  validateSolution,
+  readPageText,
+  chatAboutSolution,
 };
\ No newline at end of file
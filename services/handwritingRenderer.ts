@@ -0,0 +1,574 @@
+import { AspectRatio, GeneratedImage, HandwritingFont, LocalRendererSettings, MarginSize, MathNode, PageLayoutOptions, PaperStyle } from "../types";
+import { ModelProvider } from "./modelProvider";
+import { DEFAULT_SETTINGS } from "./settingsService";
+import { DEFAULT_PAGE_LAYOUT, headerLines, MARGIN_FRACTIONS, pageNumberLabel } from "./pageLayout";
+import { parseMathText } from "./mathNotation";
+
+export const LOCAL_RENDERER_MODEL = 'local-renderer';
+
+const PAGE_WIDTH = 1200;
+
+const PAPER_COLORS: Record<PaperStyle, string> = {
+  ruled: '#fdfcf7',
+  grid: '#fdfcf7',
+  blank: '#fdfcf7',
+  'legal-pad': '#fbf1a4',
+};
+const RULE_COLOR = '#c7d8ee';
+const LEGAL_RULE_COLOR = '#93b0d6';
+const MARGIN_RULE_COLOR = '#e8a0a0';
+
+// Gap between the margin rule and the start of the writing
+const MARGIN_GAP = 24;
+
+/** Small seeded PRNG (mulberry32) so the same page always comes out the same. */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const pageHeightFor = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return Math.round((PAGE_WIDTH * h) / w);
+};
+
+interface PageGeometry {
+  width: number;
+  height: number;
+  /** Left edge of the writing area. */
+  left: number;
+  right: number;
+  /** Height of the band above the first line, where the header goes. */
+  headerBand: number;
+  /** Baseline of the first line. */
+  top: number;
+  /** Height of the band below the last line, where the page number goes. */
+  footerBand: number;
+  lineHeight: number;
+}
+
+const geometryFor = (aspectRatio: AspectRatio, linesPerPage: number, margin: MarginSize): PageGeometry => {
+  const height = pageHeightFor(aspectRatio);
+  const headerBand = Math.round(height * 0.1);
+  const footerBand = Math.round(height * 0.05);
+  const side = Math.round(PAGE_WIDTH * MARGIN_FRACTIONS[margin]);
+  // One spare line so wrapped overflow still fits on the page
+  const lineHeight = Math.floor((height - headerBand - footerBand) / (linesPerPage + 1));
+  return {
+    width: PAGE_WIDTH,
+    height,
+    left: side + MARGIN_GAP,
+    right: PAGE_WIDTH - side,
+    headerBand,
+    top: headerBand + lineHeight,
+    footerBand,
+    lineHeight,
+  };
+};
+
+const drawPaper = (ctx: CanvasRenderingContext2D, paper: PaperStyle, geometry: PageGeometry) => {
+  const { width, height, lineHeight, top } = geometry;
+  ctx.fillStyle = PAPER_COLORS[paper];
+  ctx.fillRect(0, 0, width, height);
+  if (paper === 'blank') return;
+
+  ctx.strokeStyle = paper === 'legal-pad' ? LEGAL_RULE_COLOR : RULE_COLOR;
+  ctx.lineWidth = 1.5;
+  const rule = (x1: number, y1: number, x2: number, y2: number) => {
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  };
+
+  if (paper === 'grid') {
+    const cell = lineHeight / 2;
+    for (let y = top % cell; y < height; y += cell) rule(0, y, width, y);
+    for (let x = 0; x < width; x += cell) rule(x, 0, x, height);
+    return;
+  }
+
+  for (let y = top; y < height; y += lineHeight) rule(0, y, width, y);
+  ctx.strokeStyle = MARGIN_RULE_COLOR;
+  const marginX = geometry.left - MARGIN_GAP;
+  rule(marginX, 0, marginX, height);
+  if (paper === 'legal-pad') rule(marginX - 6, 0, marginX - 6, height);
+};
+
+/** The fonts are bundled (see index.tsx); this waits for the one in use to be ready before drawing. */
+const loadFont = async (font: string, size: number) => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  try {
+    await document.fonts.load(`${size}px "${font}"`);
+  } catch (e) {
+    console.warn(`Handwriting font "${font}" unavailable, using fallback`, e);
+  }
+};
+
+export interface RenderPageOptions {
+  style: LocalRendererSettings;
+  aspectRatio: AspectRatio;
+  linesPerPage: number;
+  /** Mixed into the seed so identical text on different pages still looks different. */
+  pageIndex: number;
+  layout?: PageLayoutOptions;
+}
+
+interface Pen {
+  ctx: CanvasRenderingContext2D;
+  random: () => number;
+  font: HandwritingFont;
+  inkColor: string;
+  jitter: number;
+  wobble: number;
+  shear: number;
+}
+
+/** A pen partway through one line: the baseline follows a slow wave along it. */
+interface LinePen extends Pen {
+  phase: number;
+  wavelength: number;
+}
+
+/** Something laid out on a line, measured from its baseline. */
+interface Laid {
+  width: number;
+  ascent: number;
+  descent: number;
+  draw: (line: LinePen, x: number, baseline: number) => void;
+}
+
+// Sizes of nested math relative to the text around it
+const SCRIPT_SCALE = 0.65;
+const STACK_SCALE = 0.8;
+const OPERATOR_SCALE = 1.3;
+const MIN_MATH_SIZE = 12;
+
+// One drawn glyph: a character plus any combining marks (x̄)
+const GLYPHS = /\P{M}\p{M}*/gu;
+
+const textNode = (text: string): MathNode => ({ kind: 'text', text });
+
+const scriptSize = (size: number) => Math.max(MIN_MATH_SIZE, size * SCRIPT_SCALE);
+const stackSize = (size: number) => Math.max(MIN_MATH_SIZE, size * STACK_SCALE);
+
+const setFont = (pen: Pen, size: number) => {
+  pen.ctx.font = `${size}px "${pen.font}", cursive`;
+};
+
+/** Width of some text at a size. Heights don't depend on it, so rule counts can be worked out without a canvas. */
+type Measure = (text: string, size: number) => number;
+
+const measureWith = (pen: Pen): Measure => (text, size) => {
+  setFont(pen, size);
+  return pen.ctx.measureText(text).width;
+};
+
+const drift = (line: LinePen, x: number) => Math.sin(line.phase + (x / line.wavelength) * Math.PI * 2) * line.wobble;
+
+/**
+ * Writes glyph by glyph: each glyph gets its own size, rotation and offset, the baseline
+ * drifts along the line's wave, and everything is sheared by the slant.
+ */
+const writeGlyphs = (line: LinePen, text: string, x: number, baseline: number, size: number) => {
+  const { ctx, random, inkColor, jitter, shear } = line;
+  setFont(line, size);
+  let cursor = x;
+  for (const glyph of text.match(GLYPHS) ?? []) {
+    const advance = ctx.measureText(glyph).width;
+    if (glyph.trim()) {
+      const gx = cursor + (random() - 0.5) * advance * 0.12 * jitter;
+      const gy = baseline + drift(line, gx) + (random() - 0.5) * size * 0.08 * jitter;
+      const scale = 1 + (random() - 0.5) * 0.16 * jitter;
+      const rotation = (random() - 0.5) * 0.14 * jitter;
+
+      ctx.save();
+      ctx.translate(gx, gy);
+      ctx.transform(1, 0, -shear, 1, 0, 0);
+      ctx.rotate(rotation);
+      ctx.scale(scale, scale);
+      ctx.globalAlpha = 0.82 + random() * 0.18;
+      ctx.fillStyle = inkColor;
+      ctx.fillText(glyph, 0, 0);
+      ctx.restore();
+    }
+    cursor += advance;
+  }
+};
+
+/** A hand-drawn stroke through the points (fraction bars, root signs, brackets). */
+const strokePath = (line: LinePen, points: [number, number][], size: number) => {
+  const { ctx, random, inkColor, jitter } = line;
+  ctx.save();
+  ctx.strokeStyle = inkColor;
+  ctx.lineWidth = Math.max(1.5, size * 0.06);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = 0.82 + random() * 0.18;
+  ctx.beginPath();
+  points.forEach(([px, py], i) => {
+    const y = py + drift(line, px) + (random() - 0.5) * size * 0.04 * jitter;
+    if (i === 0) ctx.moveTo(px, y);
+    else ctx.lineTo(px, y);
+  });
+  ctx.stroke();
+  ctx.restore();
+};
+
+/** Matrix delimiters, stretched to the height of the rows. */
+const drawDelimiter = (line: LinePen, symbol: string, x: number, width: number, top: number, bottom: number, size: number) => {
+  const height = bottom - top;
+  const curve = (bulge: (t: number) => number) =>
+    Array.from({ length: 9 }, (_, i): [number, number] => [x + bulge(i / 8), top + (height * i) / 8]);
+  switch (symbol) {
+    case '[': strokePath(line, [[x + width, top], [x + width * 0.3, top], [x + width * 0.3, bottom], [x + width, bottom]], size); break;
+    case ']': strokePath(line, [[x, top], [x + width * 0.7, top], [x + width * 0.7, bottom], [x, bottom]], size); break;
+    case '(': strokePath(line, curve(t => width * (1 - 0.8 * Math.sin(Math.PI * t))), size); break;
+    case ')': strokePath(line, curve(t => width * 0.8 * Math.sin(Math.PI * t)), size); break;
+    // Braces: hooked ends, straight sides, a point in the middle
+    case '{': strokePath(line, curve(t => width * (t === 0 || t === 1 ? 0.9 : t === 0.5 ? 0.1 : 0.5)), size); break;
+    case '}': strokePath(line, curve(t => width * (t === 0 || t === 1 ? 0.1 : t === 0.5 ? 0.9 : 0.5)), size); break;
+    case '|': strokePath(line, [[x + width / 2, top], [x + width / 2, bottom]], size); break;
+    case '‖':
+      strokePath(line, [[x + width * 0.3, top], [x + width * 0.3, bottom]], size);
+      strokePath(line, [[x + width * 0.7, top], [x + width * 0.7, bottom]], size);
+      break;
+  }
+};
+
+const layoutText = (measure: Measure, text: string, size: number): Laid => {
+  const width = (text.match(GLYPHS) ?? []).reduce((sum, glyph) => sum + measure(glyph, size), 0);
+  return {
+    width,
+    ascent: size * 0.75,
+    descent: size * 0.25,
+    draw: (line, x, baseline) => writeGlyphs(line, text, x, baseline, size),
+  };
+};
+
+const layoutRow = (measure: Measure, nodes: MathNode[], size: number): Laid => {
+  const parts = nodes.map(node => layoutNode(measure, node, size));
+  return {
+    width: parts.reduce((sum, part) => sum + part.width, 0),
+    ascent: Math.max(size * 0.75, ...parts.map(part => part.ascent)),
+    descent: Math.max(size * 0.25, ...parts.map(part => part.descent)),
+    draw: (line, x, baseline) => {
+      let cursor = x;
+      for (const part of parts) {
+        part.draw(line, cursor, baseline);
+        cursor += part.width;
+      }
+    },
+  };
+};
+
+/**
+ * Lays out one piece of math: fractions stacked over a bar, exponents raised,
+ * subscripts lowered, roots under a drawn radical, matrices in stretched brackets.
+ */
+const layoutNode = (measure: Measure, node: MathNode, size: number): Laid => {
+  // Height of the fraction bar and matrix centre above the baseline
+  const axis = size * 0.3;
+  switch (node.kind) {
+    case 'text':
+      return layoutText(measure, node.text, size);
+
+    case 'superscript':
+    case 'subscript': {
+      const body = layoutRow(measure, node.body, scriptSize(size));
+      const shift = node.kind === 'superscript' ? -size * 0.45 : size * 0.2;
+      return {
+        width: body.width,
+        ascent: Math.max(0, body.ascent - shift),
+        descent: Math.max(0, body.descent + shift),
+        draw: (line, x, baseline) => body.draw(line, x, baseline + shift),
+      };
+    }
+
+    case 'fraction': {
+      const numerator = layoutRow(measure, node.numerator, stackSize(size));
+      const denominator = layoutRow(measure, node.denominator, stackSize(size));
+      const gap = size * 0.12;
+      const pad = size * 0.12;
+      const width = Math.max(numerator.width, denominator.width) + pad * 2;
+      return {
+        width,
+        ascent: axis + gap + numerator.descent + numerator.ascent,
+        descent: Math.max(0, gap + denominator.ascent + denominator.descent - axis),
+        draw: (line, x, baseline) => {
+          const bar = baseline - axis;
+          numerator.draw(line, x + (width - numerator.width) / 2, bar - gap - numerator.descent);
+          strokePath(line, [[x + pad / 2, bar], [x + width - pad / 2, bar]], size);
+          denominator.draw(line, x + (width - denominator.width) / 2, bar + gap + denominator.ascent);
+        },
+      };
+    }
+
+    case 'root': {
+      const body = layoutRow(measure, node.body, size);
+      const degree = node.degree ? layoutRow(measure, node.degree, scriptSize(size)) : null;
+      const sign = size * 0.5;
+      const lead = degree ? Math.max(0, degree.width - sign * 0.4) : 0;
+      const ascent = body.ascent + size * 0.15;
+      const width = lead + sign + body.width + size * 0.1;
+      return {
+        width,
+        ascent: degree ? Math.max(ascent, degree.ascent + size * 0.35) : ascent,
+        descent: body.descent,
+        draw: (line, x, baseline) => {
+          const left = x + lead;
+          const top = baseline - ascent;
+          degree?.draw(line, x, baseline - size * 0.35);
+          strokePath(line, [
+            [left, baseline - size * 0.3],
+            [left + sign * 0.25, baseline - size * 0.38],
+            [left + sign * 0.5, baseline + size * 0.1],
+            [left + sign, top],
+            [x + width, top],
+          ], size);
+          body.draw(line, left + sign + size * 0.05, baseline);
+        },
+      };
+    }
+
+    case 'matrix': {
+      const inner = stackSize(size);
+      const cells = node.rows.map(row => row.map(cell => layoutRow(measure, cell, inner)));
+      const columnCount = Math.max(0, ...cells.map(row => row.length));
+      const columnWidths = Array.from({ length: columnCount }, (_, c) => Math.max(0, ...cells.map(row => row[c]?.width ?? 0)));
+      const rowMetrics = cells.map(row => ({
+        ascent: Math.max(inner * 0.75, ...row.map(cell => cell.ascent)),
+        descent: Math.max(inner * 0.25, ...row.map(cell => cell.descent)),
+      }));
+      const rowGap = inner * 0.25;
+      const columnGap = inner * 0.8;
+      const height = rowMetrics.reduce((sum, row) => sum + row.ascent + row.descent, 0) + rowGap * Math.max(0, cells.length - 1);
+      const [open, close] = node.delimiters;
+      const delimiter = size * 0.35;
+      const inset = size * 0.1;
+      const content = columnWidths.reduce((sum, w) => sum + w, 0) + columnGap * Math.max(0, columnCount - 1);
+      const width = (open ? delimiter + inset : 0) + content + (close ? delimiter + inset : 0);
+      return {
+        width,
+        ascent: axis + height / 2,
+        descent: Math.max(0, height / 2 - axis),
+        draw: (line, x, baseline) => {
+          const top = baseline - axis - height / 2;
+          if (open) drawDelimiter(line, open, x, delimiter, top, top + height, size);
+          let y = top;
+          cells.forEach((row, r) => {
+            y += rowMetrics[r].ascent;
+            let cx = x + (open ? delimiter + inset : 0);
+            row.forEach((cell, c) => {
+              cell.draw(line, cx + (columnWidths[c] - cell.width) / 2, y);
+              cx += columnWidths[c] + columnGap;
+            });
+            y += rowMetrics[r].descent + rowGap;
+          });
+          if (close) drawDelimiter(line, close, x + width - delimiter, delimiter, top, top + height, size);
+        },
+      };
+    }
+
+    case 'bigOperator': {
+      // Σ and ∫ are written large; "lim" stays text-sized
+      const large = [...node.symbol].length === 1;
+      const symbol = layoutText(measure, node.symbol, large ? size * OPERATOR_SCALE : size);
+      const drop = large ? size * 0.15 : 0;
+      const upper = layoutRow(measure, node.upper, scriptSize(size));
+      const lower = layoutRow(measure, node.lower, scriptSize(size));
+      const gap = size * 0.08;
+      const symbolAscent = symbol.ascent - drop;
+      const symbolDescent = symbol.descent + drop;
+      const width = Math.max(symbol.width, node.upper.length > 0 ? upper.width : 0, node.lower.length > 0 ? lower.width : 0) + size * 0.1;
+      return {
+        width,
+        ascent: symbolAscent + (node.upper.length > 0 ? gap + upper.ascent + upper.descent : 0),
+        descent: symbolDescent + (node.lower.length > 0 ? gap + lower.ascent + lower.descent : 0),
+        draw: (line, x, baseline) => {
+          symbol.draw(line, x + (width - symbol.width) / 2, baseline + drop);
+          if (node.upper.length > 0) upper.draw(line, x + (width - upper.width) / 2, baseline - symbolAscent - gap - upper.descent);
+          if (node.lower.length > 0) lower.draw(line, x + (width - lower.width) / 2, baseline + symbolDescent + gap + lower.ascent);
+        },
+      };
+    }
+  }
+};
+
+/** Words of a parsed line; math stays attached to the text around it. */
+const splitWords = (nodes: MathNode[]): MathNode[][] => {
+  const words: MathNode[][] = [[]];
+  for (const node of nodes) {
+    if (node.kind !== 'text') {
+      words[words.length - 1].push(node);
+      continue;
+    }
+    node.text.split(' ').forEach((piece, i) => {
+      if (i > 0) words.push([]);
+      if (piece) words[words.length - 1].push(textNode(piece));
+    });
+  }
+  return words.filter(word => word.length > 0);
+};
+
+/** Splits a parsed line that is wider than the writing area at word boundaries. */
+const fitLine = (measure: Measure, nodes: MathNode[], size: number, maxWidth: number): MathNode[][] => {
+  const space = layoutText(measure, ' ', size).width;
+  const fitted: MathNode[][] = [];
+  let current: MathNode[] = [];
+  let width = 0;
+  for (const word of splitWords(nodes)) {
+    const wordWidth = layoutRow(measure, word, size).width;
+    if (current.length > 0 && width + space + wordWidth > maxWidth) {
+      fitted.push(current);
+      current = [];
+      width = 0;
+    }
+    if (current.length > 0) {
+      current.push(textNode(' '));
+      width += space;
+    }
+    current.push(...word);
+    width += wordWidth;
+  }
+  fitted.push(current);
+  return fitted;
+};
+
+const writeLine = (pen: Pen, laid: Laid, startX: number, baseline: number) => {
+  const line: LinePen = { ...pen, phase: pen.random() * Math.PI * 2, wavelength: 180 + pen.random() * 220 };
+  // Lines don't start exactly at the margin
+  const x = startX + (pen.random() - 0.5) * 12 * pen.jitter;
+  laid.draw(line, x, baseline);
+};
+
+/**
+ * How many rules each laid-out line moves down: one, unless a line reaches further above
+ * or below than plain text does (stacked fractions, matrices, sums). Then it takes as
+ * many rules as it needs, so it clears its neighbours and the writing stays on the lines.
+ * The first line may also rise into the header band by one rule, as plain text does.
+ */
+const ruleSteps = (laid: Pick<Laid, 'ascent' | 'descent'>[], lineHeight: number, size: number): number[] => {
+  const ascent = size * 0.75;
+  const descent = size * 0.25;
+  let below = 0;
+  return laid.map(line => {
+    const extra = below + Math.max(0, line.ascent - ascent);
+    below = Math.max(0, line.descent - descent);
+    return 1 + Math.ceil(extra / lineHeight - 1e-9);
+  });
+};
+
+const baselinesFor = (laid: Laid[], geometry: PageGeometry, size: number): number[] => {
+  let baseline = geometry.top - geometry.lineHeight;
+  return ruleSteps(laid, geometry.lineHeight, size).map(steps => (baseline += steps * geometry.lineHeight));
+};
+
+/**
+ * Rules a page of text takes at the given line spacing, before any wrapping to the page
+ * width: tall lines such as stacked fractions count for more than one. The renderer has
+ * `linesPerPage + 1` rules, so the paginator keeps pages to `linesPerPage` of these.
+ */
+export const rulesNeeded = (text: string, lineSpacing: number): number => {
+  // Heights scale with the font size, so any size gives the same count
+  const size = 100;
+  const laid = parseMathText(text).map(line => layoutRow(() => 0, line, size));
+  return ruleSteps(laid, (size * lineSpacing) / 100, size).reduce((sum, steps) => sum + steps, 0);
+};
+
+/**
+ * Draws a handwritten page with seeded noise, plus the run layout's paper, margins,
+ * header block and page number. Math is parsed and laid out the way it
+ * is written by hand. Returns a PNG data URL. Same text and options, same pixels.
+ * Throws if the text, once wrapped, runs past the bottom of the page.
+ */
+export const renderHandwritingPage = async (text: string, options: RenderPageOptions): Promise<string> => {
+  const { style, aspectRatio, linesPerPage, pageIndex, layout = DEFAULT_PAGE_LAYOUT } = options;
+  const geometry = geometryFor(aspectRatio, linesPerPage, layout.margin);
+  const fontSize = Math.round((geometry.lineHeight * 100) / style.lineSpacing);
+  await loadFont(style.font, fontSize);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = geometry.width;
+  canvas.height = geometry.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  drawPaper(ctx, layout.paper === 'reference' ? style.paper : layout.paper, geometry);
+  ctx.textBaseline = 'alphabetic';
+
+  const pen: Pen = {
+    ctx,
+    random: createRandom(hashString(text) ^ Math.imul(pageIndex + 1, 0x9e3779b1)),
+    font: style.font,
+    inkColor: layout.inkColor ?? style.inkColor,
+    jitter: style.jitter / 100,
+    wobble: (style.baselineWobble / 100) * geometry.lineHeight * 0.25,
+    shear: Math.tan((style.slant * Math.PI) / 180),
+  };
+
+  // Header and page number are written a little smaller, in the bands outside the body
+  const smallSize = Math.round(fontSize * 0.8);
+  const header = headerLines(layout, pageIndex);
+  const step = geometry.headerBand / (header.length + 1);
+  const measure = measureWith(pen);
+  header.forEach((line, i) => writeLine(pen, layoutText(measure, line, smallSize), geometry.left, step * (i + 1) + smallSize * 0.35));
+  const number = pageNumberLabel(layout, pageIndex);
+  if (number) {
+    const laid = layoutText(measure, number, smallSize);
+    writeLine(pen, laid, (geometry.width - laid.width) / 2, geometry.height - geometry.footerBand * 0.3);
+  }
+
+  const lines = parseMathText(text)
+    .flatMap(line => fitLine(measure, line, fontSize, geometry.right - geometry.left))
+    .map(line => layoutRow(measure, line, fontSize));
+  const baselines = baselinesFor(lines, geometry, fontSize);
+  // Dropping the lines that don't fit would lose part of the solution without a trace
+  const fitting = baselines.filter(baseline => baseline <= geometry.height - geometry.footerBand).length;
+  if (fitting < lines.length) {
+    throw new Error(`Page ${pageIndex + 1} needs more room than the page has: only ${fitting} of its ${lines.length} lines fit. Lower LINES_PER_PAGE or the margin size.`);
+  }
+  lines.forEach((line, i) => writeLine(pen, line, geometry.left, baselines[i]));
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Drop-in replacement for the image model's `generateHandwrittenPage`.
+ * The reference image is not used; the look comes from `settings.localRenderer`.
+ * Rendering is deterministic, so regenerating a page only changes it if the text or style changed.
+ */
+export const generateLocalPage: ModelProvider['generateHandwrittenPage'] = async (
+  _referenceImageFile,
+  textToWrite,
+  pageIndex,
+  options = {}
+): Promise<GeneratedImage> => {
+  const { settings = DEFAULT_SETTINGS, signal, layout } = options;
+  if (signal?.aborted) throw signal.reason;
+
+  const imageUrl = await renderHandwritingPage(textToWrite, {
+    style: settings.localRenderer,
+    aspectRatio: settings.aspectRatio,
+    linesPerPage: settings.linesPerPage,
+    pageIndex,
+    layout,
+  });
+  if (signal?.aborted) throw signal.reason;
+  return { imageUrl, model: LOCAL_RENDERER_MODEL };
+};
@@ -0,0 +1,70 @@
+import { SolveRun, StoredFile } from "../types";
+import { RUNS_STORE, withStore } from "./localDb";
+
+export const toStoredFile = (file: File): StoredFile => ({
+  name: file.name,
+  type: file.type,
+  data: file,
+});
+
+export const fromStoredFile = (stored: StoredFile): File =>
+  new File([stored.data], stored.name, { type: stored.type });
+
+export const createRunId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Inserts or replaces a run.
+ */
+export const saveRun = async (run: SolveRun): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', store => store.put(run));
+};
+
+export const getRun = (id: string): Promise<SolveRun | undefined> =>
+  withStore(RUNS_STORE, 'readonly', store => store.get(id) as IDBRequest<SolveRun | undefined>);
+
+/**
+ * All runs, newest first.
+ */
+export const listRuns = async (): Promise<SolveRun[]> => {
+  const runs = await withStore(RUNS_STORE, 'readonly', store => store.getAll() as IDBRequest<SolveRun[]>);
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Removes every stored run.
+ */
+export const purgeHistory = async (): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', store => store.clear());
+};
+
+/**
+ * Approximate bytes held by a run: both uploads plus generated page data URLs.
+ */
+export const estimateRunSize = (run: SolveRun): number =>
+  run.questionImage.data.size +
+  run.handwritingImage.data.size +
+  run.pages.reduce((sum, page) => sum + page.imageUrl.length, 0);
+
+export interface StorageUsage {
+  historyBytes: number;
+  /** Origin-wide usage and quota as reported by the browser, when available. */
+  originUsage?: number;
+  originQuota?: number;
+}
+
+export const getStorageUsage = async (runs?: SolveRun[]): Promise<StorageUsage> => {
+  const allRuns = runs ?? await listRuns();
+  const historyBytes = allRuns.reduce((sum, run) => sum + estimateRunSize(run), 0);
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const { usage, quota } = await navigator.storage.estimate();
+    return { historyBytes, originUsage: usage, originQuota: quota };
+  }
+  return { historyBytes };
+};
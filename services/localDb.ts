@@ -0,0 +1,91 @@
+const DB_NAME = 'mathmimic';
+const DB_VERSION = 4;
+
+export const RUNS_STORE = 'runs';
+export const PROFILES_STORE = 'profiles';
+export const RESPONSE_CACHE_STORE = 'responses';
+/** Cached responses by [lastUsedAt, size], so eviction can walk them without loading the values. */
+export const RESPONSE_LAST_USED_INDEX = 'lastUsed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the app database.
+ * The connection is shared until another tab needs to upgrade the database; then it is
+ * closed and the next call opens a fresh one.
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  const opened = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        const store = db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+        db.createObjectStore(PROFILES_STORE, { keyPath: 'id' });
+      }
+      const responses = db.objectStoreNames.contains(RESPONSE_CACHE_STORE)
+        ? request.transaction!.objectStore(RESPONSE_CACHE_STORE)
+        : db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+      if (!responses.indexNames.contains(RESPONSE_LAST_USED_INDEX)) {
+        responses.createIndex(RESPONSE_LAST_USED_INDEX, ['lastUsedAt', 'size']);
+      }
+    };
+    // An older tab still has the database open, so the upgrade can't run. Fail now rather
+    // than leave every call waiting until that tab is closed.
+    let blocked = false;
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error("The local database is being upgraded but another MathMimic tab still has it open. Close or reload the other tabs and try again."));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // The other tab let go after all; a later call opens its own connection
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // A newer version opened in another tab: step aside so its upgrade isn't blocked by us
+      db.onversionchange = () => {
+        db.close();
+        if (dbPromise === opened) dbPromise = null;
+      };
+      db.onclose = () => {
+        if (dbPromise === opened) dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise = opened;
+  // Allow a later call to retry if opening failed
+  opened.catch(() => {
+    if (dbPromise === opened) dbPromise = null;
+  });
+  return opened;
+};
+
+/**
+ * Runs a single request against one object store and resolves with its result.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { parseMathLine, stripMarkdown, toHandwritingText, toLatex } from './mathNotation';
+
+describe('fractions', () => {
+  it('parses \\frac into a fraction node', () => {
+    expect(parseMathLine('\\frac{x+1}{x-1}')).toEqual([{
+      kind: 'fraction',
+      numerator: [{ kind: 'text', text: 'x+1' }],
+      denominator: [{ kind: 'text', text: 'x-1' }],
+    }]);
+  });
+
+  it('keeps single tokens bare', () => {
+    expect(toHandwritingText('1/2')).toBe('1/2');
+    expect(toHandwritingText('\\frac{a}{b}')).toBe('a/b');
+    expect(toHandwritingText('\\frac{x^2}{2}')).toBe('x²/2');
+    expect(toHandwritingText('\\frac{1}{x^2}')).toBe('1/x²');
+  });
+
+  it('keeps an implicit-product denominator grouped', () => {
+    expect(toHandwritingText('x = (-b +- sqrt(b^2-4ac))/(2a)')).toBe('x = (-b ± √(b²-4ac))/(2a)');
+    expect(toHandwritingText('\\frac{1}{2x}')).toBe('1/(2x)');
+  });
+
+  it('groups multi-token numerators and denominators', () => {
+    expect(toHandwritingText('\\frac{x+1}{x-1}')).toBe('(x+1)/(x-1)');
+    expect(toHandwritingText('\\frac{\\sqrt{2}}{2}')).toBe('(√2)/2');
+    expect(toHandwritingText('\\frac{n(n+1)}{2}')).toBe('(n(n+1))/2');
+  });
+
+  it('leaves function calls and dates alone', () => {
+    expect(toHandwritingText('f(x)/2')).toBe('f(x)/2');
+    expect(toHandwritingText('10/19/2026')).toBe('10/19/2026');
+  });
+});
+
+describe('matrices', () => {
+  it('writes rows separated by semicolons inside the delimiters', () => {
+    expect(toHandwritingText('\\begin{pmatrix} 1 & 2 \\\\ 3 & 4 \\end{pmatrix}')).toBe('(1, 2; 3, 4)');
+    expect(toHandwritingText('\\begin{bmatrix} a & b \\\\ c & d \\end{bmatrix}')).toBe('[a, b; c, d]');
+  });
+
+  it('joins an environment spread over several lines', () => {
+    expect(toHandwritingText('A = \\begin{vmatrix}\n1 & 0 \\\\\n0 & 1\n\\end{vmatrix}')).toBe('A = |1, 0; 0, 1|');
+  });
+});
+
+describe('intervals', () => {
+  it('keeps brackets, which Markdown stripping used to remove', () => {
+    expect(toHandwritingText('x \\in [0, 5)')).toBe('x ∈ [0, 5)');
+    expect(toHandwritingText('(-\\infty, 4]')).toBe('(-∞, 4]');
+    expect(toHandwritingText('x in [2, 3]')).toBe('x in [2, 3]');
+  });
+});
+
+describe('summations', () => {
+  it('writes limits as scripts on the operator', () => {
+    expect(toHandwritingText('\\sum_{i=1}^{n} i = \\frac{n(n+1)}{2}')).toBe('Σᵢ₌₁ⁿ i = (n(n+1))/2');
+  });
+
+  it('falls back to ^ for limits without a raised form', () => {
+    expect(toHandwritingText('\\sum_{k=0}^{\\infty} x^k')).toBe('Σₖ₌₀^∞ x^k');
+  });
+});
+
+describe('stripMarkdown', () => {
+  it('removes emphasis and headings but keeps multiplication', () => {
+    expect(toHandwritingText('**Step 1:** Multiply 3*4')).toBe('Step 1: Multiply 3×4');
+    expect(stripMarkdown('# Answer')).toBe('Answer');
+  });
+});
+
+describe('toLatex', () => {
+  const latex = (line: string) => toLatex(parseMathLine(line));
+
+  it('typesets plain-text math', () => {
+    expect(latex('x^2 + sqrt(x)')).toBe('x^{2} + \\sqrt{x}');
+    expect(latex('x = (-b +- sqrt(b^2-4ac))/(2a)')).toBe('x = \\frac{-b \\pm  \\sqrt{b^{2}-4ac}}{2a}');
+  });
+
+  it('maps Unicode symbols to commands pdflatex understands', () => {
+    expect(latex('x ∈ ℝ, α ≈ 30°')).toBe('x \\in  \\mathbb{R}, \\alpha  \\approx  30^{\\circ}');
+    expect(latex('x² − 1')).toBe('x^{2} - 1');
+  });
+
+  it('writes matrices and sums as their LaTeX forms', () => {
+    expect(latex('\\begin{bmatrix} a & b \\\\ c & d \\end{bmatrix}')).toBe('\\begin{bmatrix} a & b \\\\ c & d \\end{bmatrix}');
+    expect(latex('\\sum_{i=1}^{n} i')).toBe('\\sum_{i=1}^{n}  i');
+  });
+});
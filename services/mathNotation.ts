@@ -0,0 +1,518 @@
+import { MathNode } from "../types";
+
+const SYMBOLS: Record<string, string> = {
+  times: '×', cdot: '·', div: '÷', pm: '±', mp: '∓', ast: '×',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼', propto: '∝',
+  lt: '<', gt: '>', infty: '∞', to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', implies: '⇒',
+  Leftrightarrow: '⇔', iff: '⇔', in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', cup: '∪', cap: '∩',
+  emptyset: '∅', varnothing: '∅', forall: '∀', exists: '∃', angle: '∠', perp: '⊥', parallel: '∥',
+  degree: '°', circ: '°', partial: '∂', nabla: '∇', prime: '′', cdots: '⋯', ldots: '…', dots: '…',
+  therefore: '∴', because: '∵', neg: '¬', land: '∧', lor: '∨', mid: '|', vert: '|', lvert: '|', rvert: '|',
+  Vert: '‖', langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'θ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  quad: ' ', qquad: '  ',
+  // Escaped characters and spacing commands
+  '{': '{', '}': '}', '%': '%', '&': '&', '$': '$', '#': '#', '_': '_', ',': ' ', ';': ' ', ':': ' ', ' ': ' ', '!': '',
+};
+
+const BIG_OPERATORS: Record<string, string> = {
+  sum: 'Σ', prod: 'Π', int: '∫', iint: '∬', oint: '∮', bigcup: '⋃', bigcap: '⋂', lim: 'lim',
+};
+
+const FRACTION_COMMANDS = new Set(['frac', 'dfrac', 'tfrac', 'cfrac']);
+
+// Commands whose argument is written as-is
+const TEXT_COMMANDS = new Set([
+  'text', 'textrm', 'textbf', 'textit', 'mathrm', 'mathbf', 'mathit', 'mathsf', 'mathtt', 'operatorname', 'boldsymbol',
+]);
+
+// Sizing and spacing hints with nothing to write
+const IGNORED_COMMANDS = new Set([
+  'left', 'right', 'middle', 'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr',
+  'displaystyle', 'textstyle', 'limits', 'nolimits', 'end', '(', ')', '[', ']',
+]);
+
+// Combining marks placed over the argument
+const ACCENTS: Record<string, string> = {
+  bar: '̄', overline: '̅', hat: '̂', widehat: '̂', vec: '⃗', tilde: '̃', dot: '̇',
+};
+
+const DOUBLE_STRUCK: Record<string, string> = { R: 'ℝ', N: 'ℕ', Z: 'ℤ', Q: 'ℚ', C: 'ℂ' };
+
+const MATRIX_DELIMITERS: Record<string, [string, string]> = {
+  pmatrix: ['(', ')'], bmatrix: ['[', ']'], Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'],
+  cases: ['{', ''],
+};
+
+// Plain-text spellings of symbols; longest first so "<=>" wins over "<="
+const PLAIN_OPERATORS: [string, string][] = [
+  ['<=>', '⇔'], ['+/-', '±'], ['<=', '≤'], ['>=', '≥'], ['!=', '≠'], ['+-', '±'], ['->', '→'], ['=>', '⇒'], ['*', '×'],
+];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', '−': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ', i: 'ⁱ',
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', '−': '₋', '=': '₌', '(': '₍', ')': '₎',
+  a: 'ₐ', e: 'ₑ', o: 'ₒ', x: 'ₓ', i: 'ᵢ', j: 'ⱼ', k: 'ₖ', m: 'ₘ', n: 'ₙ', t: 'ₜ',
+};
+
+// A number or lone letter ending the text before "/", not part of a word, unit or date
+const NUMERATOR = /(?:^|[^A-Za-z\d./])(\d+(?:\.\d+)?|[A-Za-z])$/;
+const DENOMINATOR = /^(?:\d+(?:\.\d+)?|[A-Za-z](?![A-Za-z]))/;
+const SCRIPT_TOKEN = /^-?(?:\d+(?:\.\d+)?|[A-Za-z])/;
+
+const text = (value: string): MathNode => ({ kind: 'text', text: value });
+
+/**
+ * Removes Markdown the solver sometimes adds (headings, bold, italics, code ticks, links)
+ * without touching the characters math needs: brackets, "*" between factors, "#" mid-line.
+ */
+export const stripMarkdown = (source: string): string =>
+  source
+    .split('\n')
+    .map(line => line
+      .replace(/^\s{0,3}#{1,6}\s+/, '')
+      .replace(/^\s*>\s?/, '')
+      .replace(/^\s*([-*_])(?:\s*\1){2,}\s*$/, '')
+      .replace(/^(\s*)[*+]\s+/, '$1- '))
+    .join('\n')
+    .replace(/```[\w-]*\n?/g, '')
+    .replace(/`([^`\n]*)`/g, '$1')
+    .replace(/(^|[^\w*])\*\*(?=\S)([^*\n]+?)(?<=\S)\*\*(?!\w)/gm, '$1$2')
+    .replace(/(^|[^\w_])__(?=\S)([^_\n]+?)(?<=\S)__(?!\w)/gm, '$1$2')
+    .replace(/(^|[\s(])\*(?=[A-Za-z])([^*\n]*?[A-Za-z.!?:])\*(?=$|[\s.,;:!?)])/gm, '$1$2')
+    .replace(/\[([^\]\n]+)\]\((?:https?:\/\/|\/|#)[^)\s]*\)/g, '$1')
+    .trim();
+
+/** Joins adjacent text runs, recursively. */
+const compact = (nodes: MathNode[]): MathNode[] => {
+  const result: MathNode[] = [];
+  for (const node of nodes) {
+    const last = result[result.length - 1];
+    if (node.kind === 'text' && last?.kind === 'text') {
+      result[result.length - 1] = text(last.text + node.text);
+      continue;
+    }
+    switch (node.kind) {
+      case 'text': result.push(node); break;
+      case 'superscript':
+      case 'subscript': result.push({ ...node, body: compact(node.body) }); break;
+      case 'fraction': result.push({ ...node, numerator: compact(node.numerator), denominator: compact(node.denominator) }); break;
+      case 'root': result.push({ ...node, body: compact(node.body), ...(node.degree ? { degree: compact(node.degree) } : {}) }); break;
+      case 'matrix': result.push({ ...node, rows: node.rows.map(row => row.map(compact)) }); break;
+      case 'bigOperator': result.push({ ...node, lower: compact(node.lower), upper: compact(node.upper) }); break;
+    }
+  }
+  return result;
+};
+
+/**
+ * Parses one line of LaTeX or plain math ("x^2", "(x+1)/(x-1)", "sqrt(2)", "a*b") into nodes.
+ * Anything it doesn't recognise is kept as text, so the worst case is the input unchanged.
+ */
+export const parseMathLine = (line: string): MathNode[] => {
+  let pos = 0;
+  const peek = (offset = 0) => line[pos + offset] ?? '';
+  const skipSpaces = () => {
+    while (peek() === ' ') pos++;
+  };
+
+  const readCommandName = (): string => {
+    const match = /^[A-Za-z]+/.exec(line.slice(pos));
+    const name = match ? match[0] : peek();
+    pos += name.length;
+    return name;
+  };
+
+  const readRaw = (open: string, close: string): string => {
+    skipSpaces();
+    if (peek() !== open) return '';
+    const end = line.indexOf(close, pos);
+    const raw = line.slice(pos + 1, end < 0 ? line.length : end);
+    pos = end < 0 ? line.length : end + 1;
+    return raw;
+  };
+
+  // A TeX argument: a braced group or a single token
+  const readArgument = (): MathNode[] => {
+    skipSpaces();
+    if (peek() === '{') {
+      pos++;
+      const body = parseSequence('}');
+      pos++;
+      return body;
+    }
+    if (peek() === '\\') {
+      pos++;
+      return commandNodes(readCommandName());
+    }
+    const ch = peek();
+    pos += ch.length;
+    return ch ? [text(ch)] : [];
+  };
+
+  // What follows ^ or _: a group, or in plain math a (signed) number or letter
+  const readScript = (): MathNode[] => {
+    skipSpaces();
+    if (peek() === '{' || peek() === '\\') return readArgument();
+    if (peek() === '(') {
+      pos++;
+      const body = parseSequence(')');
+      pos++;
+      return body;
+    }
+    const match = SCRIPT_TOKEN.exec(line.slice(pos));
+    if (match) {
+      pos += match[0].length;
+      return [text(match[0])];
+    }
+    return readArgument();
+  };
+
+  const readEnvironment = (): MathNode[] => {
+    const name = readRaw('{', '}');
+    if (name === 'array') readRaw('{', '}');
+    const endTag = `\\end{${name}}`;
+    const end = line.indexOf(endTag, pos);
+    const body = line.slice(pos, end < 0 ? line.length : end);
+    pos = end < 0 ? line.length : end + endTag.length;
+    const rows = body.split('\\\\')
+      .map(row => row.trim())
+      .filter(Boolean)
+      .map(row => row.split('&').map(cell => parseMathLine(cell.trim())));
+    return [{ kind: 'matrix', rows, delimiters: MATRIX_DELIMITERS[name.replace('*', '')] ?? ['', ''] }];
+  };
+
+  const commandNodes = (name: string): MathNode[] => {
+    if (FRACTION_COMMANDS.has(name)) {
+      const numerator = readArgument();
+      return [{ kind: 'fraction', numerator, denominator: readArgument() }];
+    }
+    if (name === 'sqrt') {
+      const degree = readRaw('[', ']');
+      const body = readArgument();
+      return [degree ? { kind: 'root', body, degree: parseMathLine(degree) } : { kind: 'root', body }];
+    }
+    if (name === 'begin') return readEnvironment();
+    if (name in BIG_OPERATORS) {
+      let lower: MathNode[] = [];
+      let upper: MathNode[] = [];
+      // Spaces before the body are kept; only a following limit is read
+      let limit = /^\s*(?:\\limits\s*)?([_^])/.exec(line.slice(pos));
+      while (limit) {
+        pos += limit[0].length;
+        if (limit[1] === '_') lower = readScript();
+        else upper = readScript();
+        limit = /^\s*([_^])/.exec(line.slice(pos));
+      }
+      return [{ kind: 'bigOperator', symbol: BIG_OPERATORS[name], lower, upper }];
+    }
+    if (IGNORED_COMMANDS.has(name)) {
+      // \left. and \right. are invisible delimiters
+      if ((name === 'left' || name === 'right') && peek() === '.') pos++;
+      if (name === 'end') readRaw('{', '}');
+      return [];
+    }
+    if (TEXT_COMMANDS.has(name)) return readArgument();
+    if (name === 'mathbb') {
+      return readArgument().map(node => (node.kind === 'text'
+        ? text([...node.text].map(ch => DOUBLE_STRUCK[ch] ?? ch).join(''))
+        : node));
+    }
+    if (name in ACCENTS) return [text(linearize(readArgument()) + ACCENTS[name])];
+    if (name === '\\') return [text(' ')];
+    if (name in SYMBOLS) return [text(SYMBOLS[name])];
+    // Function names (\sin, \log, ...) and anything unknown: keep the name, keep it apart from what follows
+    return [text(/^[A-Za-z]+$/.test(name) && /[A-Za-z\\]/.test(peek()) ? `${name} ` : name)];
+  };
+
+  // Removes and returns the operand just before "/", or null if there isn't a simple one
+  const takeNumerator = (nodes: MathNode[], group: { start: number; end: number; inner: MathNode[] } | null): MathNode[] | null => {
+    if (group && group.end === nodes.length) {
+      const before = nodes[group.start - 1];
+      // f(x)/2 is a function call, not a parenthesised numerator
+      if (before?.kind === 'text' && /[A-Za-z]$/.test(before.text)) return null;
+      nodes.splice(group.start);
+      return group.inner;
+    }
+    let tail = '';
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const node = nodes[i];
+      if (node.kind !== 'text') break;
+      tail = node.text + tail;
+    }
+    const match = NUMERATOR.exec(tail);
+    if (!match) return null;
+    let remaining = match[1].length;
+    while (remaining > 0) {
+      const last = nodes[nodes.length - 1] as { kind: 'text'; text: string };
+      if (last.text.length <= remaining) {
+        remaining -= last.text.length;
+        nodes.pop();
+      } else {
+        nodes[nodes.length - 1] = text(last.text.slice(0, last.text.length - remaining));
+        remaining = 0;
+      }
+    }
+    return [text(match[1])];
+  };
+
+  const readDenominator = (): MathNode[] | null => {
+    const start = pos;
+    let denominator: MathNode[] | null = null;
+    if (peek() === '(') {
+      pos++;
+      denominator = parseSequence(')');
+      if (peek() === ')') pos++;
+      else denominator = null;
+    } else {
+      const match = DENOMINATOR.exec(line.slice(pos));
+      if (match) {
+        pos += match[0].length;
+        denominator = [text(match[0])];
+      }
+    }
+    // 10/19/2026 is a date
+    if (!denominator || peek() === '/') {
+      pos = start;
+      return null;
+    }
+    return denominator;
+  };
+
+  const parseSequence = (stop: string): MathNode[] => {
+    const nodes: MathNode[] = [];
+    let group: { start: number; end: number; inner: MathNode[] } | null = null;
+
+    while (pos < line.length && peek() !== stop) {
+      const ch = peek();
+      if (ch === '\\') {
+        pos++;
+        nodes.push(...commandNodes(readCommandName()));
+      } else if (ch === '^' || (ch === '*' && peek(1) === '*')) {
+        pos += ch === '^' ? 1 : 2;
+        nodes.push({ kind: 'superscript', body: readScript() });
+      } else if (ch === '_') {
+        pos++;
+        nodes.push({ kind: 'subscript', body: readScript() });
+      } else if (ch === '{') {
+        pos++;
+        nodes.push(...parseSequence('}'));
+        pos++;
+      } else if (ch === '(') {
+        pos++;
+        const start = nodes.length;
+        const inner = parseSequence(')');
+        nodes.push(text('('), ...inner);
+        if (peek() === ')') {
+          pos++;
+          nodes.push(text(')'));
+          group = { start, end: nodes.length, inner };
+        }
+        continue;
+      } else if (ch === '/') {
+        pos++;
+        const snapshot = [...nodes];
+        const numerator = takeNumerator(nodes, group);
+        const denominator = numerator ? readDenominator() : null;
+        if (numerator && denominator) {
+          nodes.push({ kind: 'fraction', numerator, denominator });
+        } else {
+          nodes.splice(0, nodes.length, ...snapshot, text('/'));
+        }
+      } else if (line.startsWith('sqrt(', pos) && !/[A-Za-z]/.test(line[pos - 1] ?? '')) {
+        pos += 'sqrt('.length;
+        const body = parseSequence(')');
+        pos++;
+        nodes.push({ kind: 'root', body });
+      } else {
+        const operator = PLAIN_OPERATORS.find(([from]) => line.startsWith(from, pos));
+        if (operator) {
+          pos += operator[0].length;
+          nodes.push(text(operator[1]));
+        } else {
+          pos++;
+          nodes.push(text(ch));
+        }
+      }
+      group = null;
+    }
+    return nodes;
+  };
+
+  const nodes: MathNode[] = [];
+  while (pos < line.length) {
+    nodes.push(...parseSequence(''));
+    // A stray closing brace or parenthesis at the top level
+    if (pos < line.length) nodes.push(text(line[pos++]));
+  }
+  return compact(nodes);
+};
+
+/**
+ * Strips Markdown and math delimiters, then parses each line. Environments
+ * (\begin{pmatrix} ... \end{pmatrix}) spanning several lines are joined first.
+ */
+export const parseMathText = (source: string): MathNode[][] => {
+  const joined = stripMarkdown(source)
+    .replace(/\\begin\{(\w+\*?)\}[\s\S]*?\\end\{\1\}/g, env => env.replace(/\s*\n\s*/g, ' '))
+    // "$5 and $10" is money, not math
+    .replace(/\$\$?(?=\S)([^$\n]+?)(?<=\S)\$\$?(?!\d)/g, '$1');
+  return joined
+    .split('\n')
+    .filter(line => !/^\s*(\$\$|\\\[|\\\])\s*$/.test(line))
+    .map(parseMathLine);
+};
+
+const needsParentheses = (value: string) =>
+  /[\s+\-−=<>×÷·±/,;]/.test(value) && !/^\(.*\)$/.test(value);
+
+const script = (value: string, map: Record<string, string>, marker: string) => {
+  if (value === '°' || value === '′') return value;
+  const chars = [...value];
+  if (chars.length > 0 && chars.every(ch => ch in map)) return chars.map(ch => map[ch]).join('');
+  return marker + (chars.length === 1 ? value : `(${value})`);
+};
+
+// True when the whole value is one parenthesised group: "(a+b)" but not "(a)(b)"
+const isWrapped = (value: string) => {
+  if (!value.startsWith('(') || !value.endsWith(')')) return false;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '(') depth++;
+    else if (value[i] === ')') depth--;
+    if (depth === 0 && i < value.length - 1) return false;
+  }
+  return true;
+};
+
+// A number or a letter, possibly with raised or lowered digits: 12, x, x², a₁
+const SINGLE_TOKEN = /^(?:\d+(?:\.\d+)?|\p{L})[⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻ⁿⁱ₀₁₂₃₄₅₆₇₈₉ₐₑₒₓᵢⱼₖₘₙₜ]*$/u;
+
+// Numerators and denominators of more than one token keep their grouping: 1/(2x), not 1/2x
+const operand = (value: string) => (!value || SINGLE_TOKEN.test(value) || isWrapped(value) ? value : `(${value})`);
+
+/**
+ * One-line rendering of parsed math using Unicode where it exists: x², √2, (x+1)/(x−1), [1, 2; 3, 4].
+ */
+export const linearize = (nodes: MathNode[]): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'superscript':
+        return script(linearize(node.body), SUPERSCRIPTS, '^');
+      case 'subscript':
+        return script(linearize(node.body), SUBSCRIPTS, '_');
+      case 'fraction':
+        return `${operand(linearize(node.numerator))}/${operand(linearize(node.denominator))}`;
+      case 'root': {
+        const body = linearize(node.body);
+        const radicand = body.length === 1 || !needsParentheses(body) ? body : `(${body})`;
+        const degree = node.degree ? linearize(node.degree) : '';
+        if (degree === '3') return `∛${radicand}`;
+        if (degree === '4') return `∜${radicand}`;
+        return `${degree ? script(degree, SUPERSCRIPTS, '^') : ''}√${radicand}`;
+      }
+      case 'matrix': {
+        const [open, close] = node.delimiters;
+        return `${open}${node.rows.map(row => row.map(linearize).join(', ')).join('; ')}${close}`;
+      }
+      case 'bigOperator':
+        return node.symbol
+          + (node.lower.length > 0 ? script(linearize(node.lower), SUBSCRIPTS, '_') : '')
+          + (node.upper.length > 0 ? script(linearize(node.upper), SUPERSCRIPTS, '^') : '');
+    }
+  }).join('');
+
+/**
+ * Page text as it should be written by hand: Markdown gone, LaTeX and plain-math
+ * spellings replaced by the symbols a student would write.
+ */
+export const toHandwritingText = (source: string): string =>
+  parseMathText(source).map(linearize).join('\n');
+
+// Back from the Unicode that parsing and linearizing produce to math-mode LaTeX
+const LATEX_SYMBOLS: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.entries(SYMBOLS)
+      .filter(([name, symbol]) => /^[A-Za-z]+$/.test(name) && /[^\x00-\x7f]/.test(symbol))
+      .reverse()
+      .map(([name, symbol]) => [symbol, `\\${name} `])
+  ),
+  ...Object.fromEntries(Object.entries(DOUBLE_STRUCK).map(([letter, symbol]) => [symbol, `\\mathbb{${letter}}`])),
+  '°': '^{\\circ}', '′': "'", '−': '-', '×': '\\times ', '∞': '\\infty ', '√': '\\surd ',
+};
+
+const LATEX_OPERATORS: Record<string, string> = {
+  'Σ': '\\sum', 'Π': '\\prod', '∫': '\\int', '∬': '\\iint', '∮': '\\oint', '⋃': '\\bigcup', '⋂': '\\bigcap', lim: '\\lim',
+};
+
+const LATEX_ACCENTS: Record<string, string> = Object.fromEntries(
+  Object.entries(ACCENTS).filter(([name]) => name !== 'widehat').map(([name, mark]) => [mark, name])
+);
+
+const LATEX_MATRICES: Record<string, string> = {
+  '()': 'pmatrix', '[]': 'bmatrix', '{}': 'Bmatrix', '||': 'vmatrix', '‖‖': 'Vmatrix', '{': 'cases', '': 'matrix',
+};
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\backslash ', '{': '\\{', '}': '\\}', '#': '\\#', '%': '\\%', '&': '\\&', '$': '\\$', '_': '\\_', '^': '\\hat{}', '~': '\\sim ',
+};
+
+const FROM_SUPERSCRIPT = Object.fromEntries(Object.entries(SUPERSCRIPTS).reverse().map(([ch, raised]) => [raised, ch]));
+const FROM_SUBSCRIPT = Object.fromEntries(Object.entries(SUBSCRIPTS).reverse().map(([ch, lowered]) => [lowered, ch]));
+const SUPERSCRIPT_RUN = new RegExp(`[${Object.keys(FROM_SUPERSCRIPT).join('')}]+`, 'g');
+const SUBSCRIPT_RUN = new RegExp(`[${Object.keys(FROM_SUBSCRIPT).join('')}]+`, 'g');
+
+const FUNCTION_NAMES = /\b(arcsin|arccos|arctan|sinh|cosh|tanh|sin|cos|tan|sec|csc|cot|log|ln|exp|det|gcd|max|min)\b/g;
+
+// Latin letters inputenc can typeset; anything else unmapped would stop pdflatex
+const LATIN_LETTER = /[\u00C0-\u024F]/;
+
+const latexText = (value: string): string =>
+  value
+    .replace(/[\\{}#%&$_^~]/g, ch => LATEX_ESCAPES[ch])
+    .replace(/(\P{M})(\p{M})/gu, (_, base: string, mark: string) => (LATEX_ACCENTS[mark] ? `\\${LATEX_ACCENTS[mark]}{${base}}` : base))
+    .replace(SUPERSCRIPT_RUN, run => `^{${[...run].map(ch => FROM_SUPERSCRIPT[ch]).join('')}}`)
+    .replace(SUBSCRIPT_RUN, run => `_{${[...run].map(ch => FROM_SUBSCRIPT[ch]).join('')}}`)
+    .replace(/√(\d+(?:\.\d+)?|[A-Za-z])/g, '\\sqrt{$1}')
+    .replace(FUNCTION_NAMES, '\\$1 ')
+    .replace(/[^\x00-\x7f]/g, ch => LATEX_SYMBOLS[ch] ?? (LATIN_LETTER.test(ch) ? `\\text{${ch}}` : '?'));
+
+/**
+ * Math-mode LaTeX for parsed math, without the surrounding $…$: \frac, \sqrt, ^{…},
+ * matrix environments and symbol commands in place of the Unicode characters.
+ */
+export const toLatex = (nodes: MathNode[]): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return latexText(node.text);
+      case 'superscript':
+        return `^{${toLatex(node.body)}}`;
+      case 'subscript':
+        return `_{${toLatex(node.body)}}`;
+      case 'fraction':
+        return `\\frac{${toLatex(node.numerator)}}{${toLatex(node.denominator)}}`;
+      case 'root':
+        return node.degree ? `\\sqrt[${toLatex(node.degree)}]{${toLatex(node.body)}}` : `\\sqrt{${toLatex(node.body)}}`;
+      case 'matrix': {
+        const environment = LATEX_MATRICES[node.delimiters.join('')] ?? 'matrix';
+        const rows = node.rows.map(row => row.map(cell => toLatex(cell).trim()).join(' & ')).join(' \\\\ ');
+        return `\\begin{${environment}} ${rows} \\end{${environment}}`;
+      }
+      case 'bigOperator':
+        return (LATEX_OPERATORS[node.symbol] ?? latexText(node.symbol))
+          + (node.lower.length > 0 ? `_{${toLatex(node.lower)}}` : '')
+          + (node.upper.length > 0 ? `^{${toLatex(node.upper)}}` : '')
+          + ' ';
+    }
+  }).join('');
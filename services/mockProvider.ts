@@ -0,0 +1,150 @@
+import { ChatReply, StructuredSolution, ValidationResult } from "../types";
+import { ModelProvider } from "./modelProvider";
+import { fullPageText } from "./pageLayout";
+import { toHandwritingText } from "./mathNotation";
+
+export interface MockProviderOptions {
+  /** Problem text returned by every transcription. */
+  transcription?: string;
+  /** Solution returned by every solve call. */
+  solution?: StructuredSolution;
+  /** Validation verdict returned for every run. */
+  validation?: ValidationResult;
+  /** Reply returned for every chat message. Defaults to an echo of the question. */
+  chatReply?: ChatReply;
+  /** Artificial delay per call so the UI progress states stay visible. */
+  latencyMs?: number;
+}
+
+const DEFAULT_TRANSCRIPTION = "Solve for x: 2x^2 - 8x + 6 = 0";
+
+const DEFAULT_SOLUTION: StructuredSolution = {
+  restatement: "Find the values of x that satisfy 2x^2 - 8x + 6 = 0.",
+  steps: [
+    { explanation: "Divide both sides by 2.", expression: "x^2 - 4x + 3 = 0" },
+    { explanation: "Find two numbers that multiply to 3 and add to -4: -1 and -3. Factor.", expression: "(x - 1)(x - 3) = 0" },
+    { explanation: "Set each factor to zero.", expression: "x - 1 = 0 => x = 1\nx - 3 = 0 => x = 3" },
+    { explanation: "Check both roots in the original equation.", expression: "2(1) - 8(1) + 6 = 0\n2(9) - 8(3) + 6 = 0" },
+  ],
+  finalAnswer: "x = 1 or x = 3",
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * Draws a synthetic "handwritten" page so the results grid and PDF export
+ * have a real image to work with. Output is deterministic for a given text.
+ */
+const renderSyntheticPage = (text: string, pageIndex: number): string => {
+  const width = 768;
+  const height = 1024;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  // Ruled paper background
+  ctx.fillStyle = '#fdfcf7';
+  ctx.fillRect(0, 0, width, height);
+  ctx.strokeStyle = '#c7d8ee';
+  ctx.lineWidth = 1;
+  const lineHeight = 40;
+  for (let y = 120; y < height; y += lineHeight) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  }
+  ctx.strokeStyle = '#e8a0a0';
+  ctx.beginPath();
+  ctx.moveTo(80, 0);
+  ctx.lineTo(80, height);
+  ctx.stroke();
+
+  // Ink
+  ctx.fillStyle = '#1a2a6c';
+  ctx.font = 'italic 26px "Comic Sans MS", cursive';
+  ctx.textBaseline = 'bottom';
+  text.split('\n').forEach((line, i) => {
+    ctx.fillText(line, 96, 120 + lineHeight * (i + 1) - 6, width - 120);
+  });
+
+  ctx.font = '20px monospace';
+  ctx.fillStyle = '#888';
+  ctx.fillText(`MOCK PAGE ${pageIndex + 1}`, width - 180, 60);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Builds an offline provider with canned transcriptions, scripted solutions and
+ * synthetic page images. No network access or API key is needed.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): ModelProvider => {
+  const {
+    transcription = DEFAULT_TRANSCRIPTION,
+    solution = DEFAULT_SOLUTION,
+    validation = { valid: true, reason: "Mock provider always accepts output" },
+    chatReply,
+    latencyMs = 300,
+  } = options;
+
+  // Page images are synthetic, so "reading one back" is a lookup of what was drawn
+  const drawnText = new Map<string, string>();
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    requiresApiKey: false,
+
+    transcribeMathProblem: async (_imageFile, callOptions = {}) => {
+      await wait(latencyMs, callOptions.signal);
+      return transcription;
+    },
+
+    solveMathProblem: async (_problemText, callOptions = {}) => {
+      await wait(latencyMs, callOptions.signal);
+      return structuredClone(solution);
+    },
+
+    generateHandwrittenPage: async (_referenceImageFile, textToWrite, pageIndex, callOptions = {}) => {
+      await wait(latencyMs, callOptions.signal);
+      // Header and page number are written as plain lines around the body
+      const pageText = toHandwritingText(fullPageText(callOptions.layout, pageIndex, textToWrite));
+      const imageUrl = renderSyntheticPage(pageText, pageIndex);
+      drawnText.set(imageUrl, pageText);
+      return { imageUrl, model: 'mock-renderer' };
+    },
+
+    validateSolution: async (_questionFile, _generatedImageUrls, callOptions = {}) => {
+      await wait(latencyMs, callOptions.signal);
+      return { ...validation };
+    },
+
+    readPageText: async (imageUrl, callOptions = {}) => {
+      await wait(latencyMs, callOptions.signal);
+      return drawnText.get(imageUrl) ?? '';
+    },
+
+    chatAboutSolution: async (context, _history, message, callOptions = {}) => {
+      await wait(latencyMs, callOptions.signal);
+      if (chatReply) return { ...chatReply };
+      // "different way" requests get the scripted pages back in reverse so the revise flow can be exercised
+      const wantsRevision = /different|another|again/i.test(message);
+      return {
+        text: `Mock tutor: you asked "${message}". The solution has ${context.solutionPages.length} page(s).`,
+        revisedPages: wantsRevision ? [...context.solutionPages].reverse() : undefined
+      };
+    },
+  };
+};
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,71 @@
+import { AppSettings, ModelStep, ModelUsage, ServiceErrorKind, SkippedModel, StepModels } from "../types";
+import { ServiceError } from "./serviceErrors";
+
+const SKIP_LABELS: Record<ServiceErrorKind, string> = {
+  'auth': 'access denied',
+  'quota': 'quota exceeded',
+  'safety-blocked': 'blocked',
+  'model-unavailable': 'unavailable',
+  'malformed-response': 'bad response',
+  'network': 'unreachable',
+  'cancelled': 'cancelled',
+};
+
+/**
+ * The step's primary model followed by its fallbacks, without repeats.
+ */
+export const modelChain = (settings: AppSettings, step: ModelStep): string[] =>
+  [...new Set([settings.models[step], ...settings.fallbacks[step].models])];
+
+/**
+ * Calls `attempt` with each model of the step's chain in turn until one succeeds.
+ * Only errors of a kind listed in the chain's `advanceOn` move on to the next model;
+ * anything else, or a failure of the last model, is thrown as is.
+ * `index` is the model's position in the chain, so callers can tune requests for fallbacks.
+ */
+export const runModelChain = async <T>(
+  settings: AppSettings,
+  step: ModelStep,
+  attempt: (model: string, index: number) => Promise<T>
+): Promise<{ result: T; usage: ModelUsage }> => {
+  const models = modelChain(settings, step);
+  const { advanceOn } = settings.fallbacks[step];
+  const skipped: SkippedModel[] = [];
+
+  for (let i = 0; ; i++) {
+    try {
+      const result = await attempt(models[i], i);
+      return { result, usage: { model: models[i], skipped } };
+    } catch (error) {
+      const isLast = i === models.length - 1;
+      if (isLast || !(error instanceof ServiceError) || !advanceOn.includes(error.kind)) throw error;
+      skipped.push({ model: models[i], kind: error.kind });
+      console.warn(`${step}: ${models[i]} failed (${error.kind}), falling back to ${models[i + 1]}.`);
+    }
+  }
+};
+
+/**
+ * One line for the UI, e.g. "gemini-2.5-flash-image after gemini-3-pro-image-preview quota exceeded".
+ */
+export const describeModelUsage = (usage: Pick<ModelUsage, 'model'> & { skipped?: SkippedModel[] }): string => {
+  const skipped = usage.skipped ?? [];
+  if (skipped.length === 0) return usage.model;
+  return `${usage.model} after ${skipped.map(s => `${s.model} ${SKIP_LABELS[s.kind]}`).join(', ')}`;
+};
+
+const STEP_LABELS: Partial<Record<ModelStep, string>> = {
+  transcription: 'read',
+  solver: 'solved',
+  validation: 'validated',
+};
+
+/**
+ * Summary of the models behind a run's text steps, e.g.
+ * "read by gemini-2.5-flash · solved by gemini-2.5-flash after gemini-3-pro-preview quota exceeded".
+ */
+export const describeStepModels = (models: StepModels): string =>
+  (Object.keys(STEP_LABELS) as ModelStep[])
+    .filter(step => models[step])
+    .map(step => `${STEP_LABELS[step]} by ${describeModelUsage(models[step] as ModelUsage)}`)
+    .join(' · ');
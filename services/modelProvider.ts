@@ -0,0 +1,114 @@
+import { AppSettings, CallUsage, ChatContext, ChatReply, ChatTurn, GeneratedImage, ModelStep, ModelUsage, PageLayoutOptions, StructuredSolution, ValidationResult } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { generateLocalPage } from "./handwritingRenderer";
+
+export type ProviderId = 'gemini' | 'mock';
+
+/**
+ * Per-call options shared by every provider function.
+ * Providers fall back to DEFAULT_SETTINGS when `settings` is omitted, and to
+ * DEFAULT_PAGE_LAYOUT when `layout` is.
+ */
+export interface ServiceCallOptions {
+  settings?: AppSettings;
+  signal?: AbortSignal;
+  /** Page layout of the current run; only page generation uses it. */
+  layout?: PageLayoutOptions;
+  /** Told how long a call will wait when the provider is rate limiting. */
+  onRateLimited?: (delayMs: number) => void;
+  /** Told which model of the step's fallback chain produced a text result. Pages carry it in GeneratedImage instead. */
+  onModelUsed?: (step: ModelStep, usage: ModelUsage) => void;
+  /** Told what each billed call consumed. Providers that don't bill never call it. */
+  onUsage?: (usage: CallUsage) => void;
+  /** Ignore cached responses for this call; its fresh result still replaces the cached one. */
+  refreshCache?: boolean;
+}
+
+/**
+ * Contract every model backend must fulfil. The pipeline in App.tsx only talks
+ * to the active provider, never to a concrete SDK.
+ * Every call takes optional ServiceCallOptions and must reject once its signal fires.
+ */
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  transcribeMathProblem: (imageFile: File, options?: ServiceCallOptions) => Promise<string>;
+  solveMathProblem: (problemText: string, options?: ServiceCallOptions) => Promise<StructuredSolution>;
+  generateHandwrittenPage: (
+    referenceImageFile: File,
+    textToWrite: string,
+    pageIndex: number,
+    options?: ServiceCallOptions
+  ) => Promise<GeneratedImage>;
+  validateSolution: (
+    questionFile: File,
+    generatedImageUrls: string[],
+    options?: ServiceCallOptions
+  ) => Promise<ValidationResult>;
+  /** Reads a generated page back to plain text for the fidelity check. */
+  readPageText: (imageUrl: string, options?: ServiceCallOptions) => Promise<string>;
+  chatAboutSolution: (
+    context: ChatContext,
+    history: ChatTurn[],
+    message: string,
+    options?: ServiceCallOptions
+  ) => Promise<ChatReply>;
+}
+
+const providers: Record<ProviderId, ModelProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in providers;
+
+/**
+ * Picks the provider at startup.
+ * `?provider=mock` in the URL wins, then the MODEL_PROVIDER env variable, then Gemini.
+ */
+const resolveStartupProvider = (): ModelProvider => {
+  if (typeof window !== 'undefined') {
+    const fromQuery = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderId(fromQuery)) return providers[fromQuery];
+  }
+  // safely check for process.env to avoid ReferenceError in browser
+  const fromEnv = (typeof process !== 'undefined' && process.env) ? process.env.MODEL_PROVIDER : undefined;
+  if (isProviderId(fromEnv)) return providers[fromEnv];
+  return providers.gemini;
+};
+
+let activeProvider: ModelProvider = resolveStartupProvider();
+
+export const getModelProvider = (): ModelProvider => activeProvider;
+
+/**
+ * Swaps the active provider. Accepts a custom implementation so tests can
+ * inject a scripted provider (see `createMockProvider`).
+ */
+export const setModelProvider = (provider: ProviderId | ModelProvider) => {
+  activeProvider = typeof provider === 'string' ? providers[provider] : provider;
+};
+
+export const transcribeMathProblem: ModelProvider['transcribeMathProblem'] = (imageFile, options) =>
+  activeProvider.transcribeMathProblem(imageFile, options);
+
+export const solveMathProblem: ModelProvider['solveMathProblem'] = (problemText, options) =>
+  activeProvider.solveMathProblem(problemText, options);
+
+// The local renderer replaces only page drawing; every other step still uses the active provider
+export const generateHandwrittenPage: ModelProvider['generateHandwrittenPage'] = (referenceImageFile, textToWrite, pageIndex, options) =>
+  options?.settings?.pageRenderer === 'local'
+    ? generateLocalPage(referenceImageFile, textToWrite, pageIndex, options)
+    : activeProvider.generateHandwrittenPage(referenceImageFile, textToWrite, pageIndex, options);
+
+export const validateSolution: ModelProvider['validateSolution'] = (questionFile, generatedImageUrls, options) =>
+  activeProvider.validateSolution(questionFile, generatedImageUrls, options);
+
+export const readPageText: ModelProvider['readPageText'] = (imageUrl, options) =>
+  activeProvider.readPageText(imageUrl, options);
+
+export const chatAboutSolution: ModelProvider['chatAboutSolution'] = (context, history, message, options) =>
+  activeProvider.chatAboutSolution(context, history, message, options);
@@ -0,0 +1,77 @@
+import { MarginSize, PageLayoutOptions, PaperStyle } from "../types";
+
+export const MARGIN_SIZES: MarginSize[] = ['narrow', 'normal', 'wide'];
+
+/** Side margin as a fraction of the page width. */
+export const MARGIN_FRACTIONS: Record<MarginSize, number> = {
+  narrow: 0.05,
+  normal: 0.1,
+  wide: 0.16,
+};
+
+export const DEFAULT_PAGE_LAYOUT: PageLayoutOptions = {
+  paper: 'reference',
+  header: { name: '', date: '', questionNumber: '' },
+  margin: 'normal',
+  inkColor: null,
+  pageNumbers: false,
+};
+
+const PAPER_DESCRIPTIONS: Record<PaperStyle, string> = {
+  ruled: 'white ruled notebook paper with thin blue horizontal lines and a red margin line on the left',
+  grid: 'white graph paper with a fine light-blue square grid',
+  blank: 'plain white paper with no lines',
+  'legal-pad': 'yellow legal pad paper with blue horizontal lines and a double red margin line on the left',
+};
+
+/**
+ * Lines of the header block for a page. The first page carries the full block; later
+ * pages repeat the name and question number on one line, so a loose page can still be
+ * matched to its owner and question, like a handed-in assignment.
+ */
+export const headerLines = (layout: PageLayoutOptions, pageIndex: number): string[] => {
+  const { name, date, questionNumber } = layout.header;
+  const nameLine = name.trim() && `Name: ${name.trim()}`;
+  if (pageIndex > 0) {
+    const continued = questionNumber.trim() && `Question ${questionNumber.trim()} (continued)`;
+    return [[nameLine, continued].filter(Boolean).join('    ')].filter(Boolean);
+  }
+  const first = [nameLine, date.trim() && `Date: ${date.trim()}`].filter(Boolean).join('    ');
+  const second = questionNumber.trim() ? `Question ${questionNumber.trim()}` : '';
+  return [first, second].filter(Boolean);
+};
+
+export const pageNumberLabel = (layout: PageLayoutOptions, pageIndex: number): string | null =>
+  layout.pageNumbers ? `Page ${pageIndex + 1}` : null;
+
+/**
+ * Everything that should be legible on the page: header, body, page number.
+ * Used as the expected text when a page is read back.
+ */
+export const fullPageText = (layout: PageLayoutOptions | undefined, pageIndex: number, body: string): string => {
+  if (!layout) return body;
+  const number = pageNumberLabel(layout, pageIndex);
+  return [...headerLines(layout, pageIndex), body, ...(number ? [number] : [])].join('\n');
+};
+
+/**
+ * Paper, margin, header and page number instructions for the image model (ink colour is
+ * part of the ink instruction). Identical for every page of a run apart from the header
+ * (shortened after the first page) and the page number.
+ */
+export const describeLayoutForPrompt = (layout: PageLayoutOptions, pageIndex: number): string => {
+  const lines: string[] = [];
+  lines.push(layout.paper === 'reference'
+    ? '- **Paper**: Recreate the blank paper texture from the reference image.'
+    : `- **Paper**: Use ${PAPER_DESCRIPTIONS[layout.paper]}. Ignore the paper in the reference image.`);
+  lines.push(`- **Margins**: Keep about ${Math.round(MARGIN_FRACTIONS[layout.margin] * 100)}% of the page width empty on the left and right.`);
+  const header = headerLines(layout, pageIndex);
+  if (header.length > 0) {
+    lines.push(`- **Header**: At the top of the page, above the content, write exactly: "${header.join(' / ')}".`);
+  }
+  const number = pageNumberLabel(layout, pageIndex);
+  if (number) {
+    lines.push(`- **Page Number**: Write "${number}" small, centred at the bottom of the page.`);
+  }
+  return lines.join('\n    ');
+};
@@ -0,0 +1,91 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { CropRegion } from './problemDetection';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Render at 2x the PDF's 72dpi so small print stays legible to the transcription model
+const RENDER_SCALE = 2;
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+export const canvasToFile = (canvas: HTMLCanvasElement, name: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error(`Could not encode ${name}`));
+        return;
+      }
+      resolve(new File([blob], name, { type: 'image/png' }));
+    }, 'image/png');
+  });
+
+/**
+ * Rasterizes every page of a PDF locally into a PNG canvas, in page order.
+ */
+export const renderPdfPages = async (file: File): Promise<HTMLCanvasElement[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  const canvases: HTMLCanvasElement[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      canvases.push(canvas);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return canvases;
+};
+
+/** Decodes an image file onto a canvas at its natural size. */
+export const imageFileToCanvas = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.drawImage(bitmap, 0, 0);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Every page of a PDF, or the single page of an image, as canvases ready for cropping.
+ */
+export const renderSourcePages = async (file: File): Promise<HTMLCanvasElement[]> =>
+  isPdfFile(file) ? renderPdfPages(file) : [await imageFileToCanvas(file)];
+
+/**
+ * Copies one region of a rendered page onto its own canvas and encodes it as a PNG.
+ */
+export const cropCanvasToFile = (canvas: HTMLCanvasElement, region: CropRegion, name: string): Promise<File> => {
+  const sx = Math.round(region.x * canvas.width);
+  const sy = Math.round(region.y * canvas.height);
+  const sw = Math.max(1, Math.round(region.width * canvas.width));
+  const sh = Math.max(1, Math.round(region.height * canvas.height));
+
+  const crop = document.createElement('canvas');
+  crop.width = sw;
+  crop.height = sh;
+  const ctx = crop.getContext('2d');
+  if (!ctx) return Promise.reject(new Error("Canvas 2D context unavailable"));
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, sw, sh);
+  ctx.drawImage(canvas, sx, sy, sw, sh, 0, 0, sw, sh);
+  return canvasToFile(crop, name);
+};
@@ -1,23 +1,306 @@
 import { jsPDF } from "jspdf";
+import { PdfExportSettings } from "../types";
+import { DEFAULT_SETTINGS } from "./settingsService";
 
-export const generatePDF = (images: string[]): Blob => {
-  // A4 size in mm: 210 x 297
-  const doc = new jsPDF({
-    orientation: "portrait",
+export interface PdfSection {
+  title: string;
+  subtitle?: string;
+  images: string[];
+  /** Solution text behind each image, in the same order. */
+  pageTexts?: string[];
+}
+
+/** Describes the document as a whole: feeds the PDF metadata and the optional cover page. */
+export interface PdfDocumentInfo {
+  problemText?: string;
+  /**
+   * Solution text behind each image, in the same order. Written as an invisible text
+   * layer over the image (so the PDF is searchable) and used for step bookmarks.
+   */
+  pageTexts?: string[];
+}
+
+interface Placement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PreparedImage {
+  data: string;
+  format: "PNG" | "JPEG";
+  width: number;
+  height: number;
+}
+
+// Page sizes in mm
+const PAGE_SIZES: Record<Exclude<PdfExportSettings['pageSize'], 'custom'>, [number, number]> = {
+  a4: [210, 297],
+  letter: [215.9, 279.4],
+};
+
+// Lowest quality tried when shrinking towards a size target
+const MIN_JPEG_QUALITY = 30;
+const JPEG_QUALITY_STEP = 10;
+
+export const getPageSize = (options: PdfExportSettings): [number, number] =>
+  options.pageSize === 'custom' ? [options.customWidth, options.customHeight] : PAGE_SIZES[options.pageSize];
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load page image for PDF export"));
+    img.src = src;
+  });
+
+/**
+ * Re-encodes a page image for the PDF. In 'fill' mode it is also centre-cropped to
+ * `boxAspect` so it can cover the printable area without distortion.
+ */
+const prepareImage = async (
+  src: string,
+  options: PdfExportSettings,
+  boxAspect: number,
+  quality: number
+): Promise<PreparedImage> => {
+  const img = await loadImage(src);
+  let sx = 0;
+  let sy = 0;
+  let sw = img.naturalWidth;
+  let sh = img.naturalHeight;
+
+  if (options.fit === 'fill') {
+    if (sw / sh > boxAspect) {
+      const cropped = sh * boxAspect;
+      sx = (sw - cropped) / 2;
+      sw = cropped;
+    } else {
+      const cropped = sw / boxAspect;
+      sy = (sh - cropped) / 2;
+      sh = cropped;
+    }
+  } else if (options.imageFormat === 'png') {
+    // Nothing to change; keep the original bytes
+    return { data: src, format: "PNG", width: sw, height: sh };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw);
+  canvas.height = Math.round(sh);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  // JPEG has no alpha; flatten onto white rather than black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return options.imageFormat === 'jpeg'
+    ? { data: canvas.toDataURL('image/jpeg', quality / 100), format: "JPEG", width: canvas.width, height: canvas.height }
+    : { data: canvas.toDataURL('image/png'), format: "PNG", width: canvas.width, height: canvas.height };
+};
+
+// Rough decoded size of a data URL, which is what ends up embedded in the PDF
+const dataUrlBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 0.75);
+
+/**
+ * Encodes every image, stepping JPEG quality down until the total fits `targetSizeKb`
+ * (or the quality floor is reached).
+ */
+const prepareImages = async (images: string[], options: PdfExportSettings, boxAspect: number): Promise<PreparedImage[]> => {
+  let quality = options.jpegQuality;
+  for (;;) {
+    const prepared = await Promise.all(images.map(src => prepareImage(src, options, boxAspect, quality)));
+    const withinTarget =
+      options.imageFormat !== 'jpeg' ||
+      options.targetSizeKb === 0 ||
+      prepared.reduce((sum, image) => sum + dataUrlBytes(image.data), 0) <= options.targetSizeKb * 1024;
+    if (withinTarget || quality <= MIN_JPEG_QUALITY) return prepared;
+    quality = Math.max(MIN_JPEG_QUALITY, quality - JPEG_QUALITY_STEP);
+  }
+};
+
+const createDocument = (options: PdfExportSettings): jsPDF => {
+  const [width, height] = getPageSize(options);
+  return new jsPDF({
+    orientation: width > height ? "landscape" : "portrait",
     unit: "mm",
-    format: "a4",
+    format: [width, height],
+  });
+};
+
+/**
+ * Places an image inside the page margins, keeping its aspect ratio.
+ */
+const addImagePage = (doc: jsPDF, image: PreparedImage, options: PdfExportSettings): Placement => {
+  const [pageWidth, pageHeight] = getPageSize(options);
+  const boxWidth = pageWidth - options.margin * 2;
+  const boxHeight = pageHeight - options.margin * 2;
+  const scale = Math.min(boxWidth / image.width, boxHeight / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const placement = {
+    x: options.margin + (boxWidth - width) / 2,
+    y: options.margin + (boxHeight - height) / 2,
+    width,
+    height,
+  };
+  doc.addImage(image.data, image.format, placement.x, placement.y, placement.width, placement.height);
+  return placement;
+};
+
+// The standard PDF fonts only cover Latin-1, so spell out common math symbols and drop the rest
+const MATH_SYMBOLS: Record<string, string> = {
+  '√': 'sqrt', 'π': 'pi', '≤': '<=', '≥': '>=', '≠': '!=', '≈': '~=', '∞': 'infinity',
+  '−': '-', '→': '->', 'θ': 'theta', 'α': 'alpha', 'β': 'beta', 'Δ': 'Delta', '∑': 'sum', '∫': 'integral',
+};
+
+const toPdfSafeText = (text: string) =>
+  text
+    .replace(/\*\*|__|^#+\s*/gm, '')
+    .replace(/[^\x00-\xff]/g, char => MATH_SYMBOLS[char] ?? '');
+
+/**
+ * Lays the page's text over the image as invisible glyphs, spread evenly from top to
+ * bottom the way the handwriting fills the page, so search hits land near the right line.
+ */
+const addTextLayer = (doc: jsPDF, text: string, placement: Placement) => {
+  const safeText = toPdfSafeText(text).trim();
+  if (!safeText) return;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  const lines: string[] = safeText
+    .split('\n')
+    .flatMap(line => (line.trim() ? doc.splitTextToSize(line, placement.width) : []));
+  if (lines.length === 0) return;
+
+  const lineHeight = placement.height / (lines.length + 1);
+  // mm -> pt, leaving some leading; capped so short pages don't get huge invisible text
+  doc.setFontSize(Math.max(4, Math.min(14, (lineHeight / 0.3528) * 0.8)));
+  lines.forEach((line, i) => {
+    doc.text(line, placement.x, placement.y + lineHeight * (i + 1), { renderingMode: 'invisible' });
   });
+};
 
-  const pageWidth = 210;
-  const pageHeight = 297;
+/**
+ * Headings for step bookmarks: lines like "Step 2: ..." or "3) ...".
+ */
+const extractStepTitles = (text: string): string[] =>
+  toPdfSafeText(text)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => /^(step\s*\d+|\d+[.)]\s)/i.test(line))
+    .map(line => (line.length > 60 ? `${line.slice(0, 57)}...` : line));
 
-  images.forEach((imgData, index) => {
-    if (index > 0) {
+/**
+ * Adds a "Page N" bookmark for the current page, with its steps nested underneath.
+ */
+const addPageBookmarks = (doc: jsPDF, parent: unknown, pageLabel: string, text?: string) => {
+  const pageNumber = doc.getNumberOfPages();
+  const pageItem = doc.outline.add(parent, pageLabel, { pageNumber });
+  if (text) {
+    extractStepTitles(text).forEach(title => doc.outline.add(pageItem, title, { pageNumber }));
+  }
+};
+
+/**
+ * Writes a heading and optional body text (e.g. the problem statement) on the current page.
+ */
+const addTextPage = (doc: jsPDF, options: PdfExportSettings, title: string, body?: string) => {
+  const [pageWidth] = getPageSize(options);
+  const margin = 20;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(22);
+  doc.text(toPdfSafeText(title), margin, 40);
+  if (body) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(12);
+    doc.text(doc.splitTextToSize(toPdfSafeText(body), pageWidth - margin * 2), margin, 55);
+  }
+};
+
+const toDocumentTitle = (problemText?: string) => {
+  const firstLine = problemText?.split('\n').find(line => line.trim())?.trim();
+  if (!firstLine) return 'Math Solution';
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+};
+
+const boxAspectFor = (options: PdfExportSettings) => {
+  const [pageWidth, pageHeight] = getPageSize(options);
+  return (pageWidth - options.margin * 2) / (pageHeight - options.margin * 2);
+};
+
+export const generatePDF = async (
+  images: string[],
+  options: PdfExportSettings = DEFAULT_SETTINGS.pdfExport,
+  info: PdfDocumentInfo = {}
+): Promise<Blob> => {
+  const doc = createDocument(options);
+  doc.setProperties({
+    title: toPdfSafeText(toDocumentTitle(info.problemText)),
+    subject: toPdfSafeText(info.problemText ?? ''),
+    author: options.author,
+    creator: 'MathMimic',
+  });
+
+  let hasPage = false;
+  if (options.coverPage) {
+    addTextPage(doc, options, 'Solution', info.problemText);
+    doc.outline.add(null, 'Problem', { pageNumber: 1 });
+    hasPage = true;
+  }
+
+  const prepared = await prepareImages(images, options, boxAspectFor(options));
+  prepared.forEach((image, index) => {
+    if (hasPage) {
       doc.addPage();
     }
-    // Add image fitting the page
-    doc.addImage(imgData, "PNG", 0, 0, pageWidth, pageHeight);
+    const placement = addImagePage(doc, image, options);
+    const text = info.pageTexts?.[index];
+    if (text) addTextLayer(doc, text, placement);
+    addPageBookmarks(doc, null, `Page ${index + 1}`, text);
+    hasPage = true;
+  });
+
+  return doc.output("blob");
+};
+
+/**
+ * One PDF for several problems: each section opens with a separator page
+ * carrying its title and problem statement, followed by its solution pages.
+ */
+export const generateCombinedPDF = async (
+  sections: PdfSection[],
+  options: PdfExportSettings = DEFAULT_SETTINGS.pdfExport
+): Promise<Blob> => {
+  const doc = createDocument(options);
+  doc.setProperties({
+    title: `${sections.length} Math Solutions`,
+    subject: toPdfSafeText(sections.map(section => section.title).join('; ')),
+    author: options.author,
+    creator: 'MathMimic',
   });
 
+  const boxAspect = boxAspectFor(options);
+  for (const [sectionIndex, section] of sections.entries()) {
+    if (sectionIndex > 0) {
+      doc.addPage();
+    }
+    // Separator page
+    addTextPage(doc, options, section.title, section.subtitle);
+    const sectionItem = doc.outline.add(null, toPdfSafeText(section.title), { pageNumber: doc.getNumberOfPages() });
+
+    // The size target applies per section here, not to the combined file
+    const prepared = await prepareImages(section.images, options, boxAspect);
+    prepared.forEach((image, index) => {
+      doc.addPage();
+      const placement = addImagePage(doc, image, options);
+      const text = section.pageTexts?.[index];
+      if (text) addTextLayer(doc, text, placement);
+      addPageBookmarks(doc, sectionItem, `Page ${index + 1}`, text);
+    });
+  }
+
   return doc.output("blob");
 };
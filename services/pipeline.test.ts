@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { ServiceCallOptions } from './modelProvider';
+import { createMockProvider } from './mockProvider';
+import { PipelineEvent, PipelineServices, createPipelineControl, renderSolutionPages, runPipeline } from './pipeline';
+import { fullPageText } from './pageLayout';
+import { AuthError } from './serviceErrors';
+import { DEFAULT_SETTINGS } from './settingsService';
+
+const handwritingFile = new File(['sample'], 'sample.png', { type: 'image/png' });
+const questionFile = new File(['question'], 'question.png', { type: 'image/png' });
+
+/** Never resolves; rejects once `signal` fires, the way a provider call does on abort. */
+const untilAborted = (signal?: AbortSignal) => new Promise<never>((_, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+});
+
+describe('renderSolutionPages', () => {
+  it('aborts pages still being written once a sibling fails', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const generateHandwrittenPage = async (_file: File, _text: string, pageIndex: number, options: ServiceCallOptions = {}) => {
+      signals[pageIndex] = options.signal;
+      if (pageIndex === 1) {
+        await Promise.resolve();
+        throw new Error('page 2 failed');
+      }
+      return untilAborted(options.signal);
+    };
+
+    const run = new AbortController();
+    await expect(renderSolutionPages(['one', 'two'], handwritingFile, { generateHandwrittenPage }, {
+      callOptions: { settings: { ...DEFAULT_SETTINGS, pageConcurrency: 2 }, signal: run.signal },
+    })).rejects.toThrow('page 2 failed');
+
+    expect(signals[0]?.aborted).toBe(true);
+    expect(run.signal.aborted).toBe(false);
+  });
+
+  it('aborts every page when the run is cancelled', async () => {
+    const run = new AbortController();
+    const pending = renderSolutionPages(['one', 'two'], handwritingFile, {
+      generateHandwrittenPage: (_file, _text, _index, options = {}) => untilAborted(options.signal),
+    }, {
+      callOptions: { settings: { ...DEFAULT_SETTINGS, pageConcurrency: 2 }, signal: run.signal },
+    });
+    run.abort();
+    await expect(pending).rejects.toThrow();
+  });
+});
+
+/**
+ * The mock provider with pages that need no canvas: each image is a key, and reading it
+ * back gives what was meant to be on it unless `misread` says that read comes out garbled.
+ */
+const mockServices = (misread: (pageIndex: number, read: number) => boolean = () => false) => {
+  const provider = createMockProvider({ latencyMs: 0 });
+  const drawn = new Map<string, { text: string; pageIndex: number }>();
+  const reads = new Map<number, number>();
+  let generated = 0;
+  const services: PipelineServices = {
+    ...provider,
+    generateHandwrittenPage: async (_file, text, pageIndex, options = {}) => {
+      options.signal?.throwIfAborted();
+      const imageUrl = `page:${++generated}`;
+      drawn.set(imageUrl, { text: fullPageText(options.layout, pageIndex, text), pageIndex });
+      return { imageUrl, model: 'mock-renderer' };
+    },
+    readPageText: async imageUrl => {
+      const page = drawn.get(imageUrl);
+      if (!page) return '';
+      const read = (reads.get(page.pageIndex) ?? 0) + 1;
+      reads.set(page.pageIndex, read);
+      return misread(page.pageIndex, read) ? 'illegible scribbles' : page.text;
+    },
+  };
+  return { services, generatedPages: () => generated };
+};
+
+const input = { questionFile, handwritingFile };
+
+describe('runPipeline', () => {
+  it('completes a run and regenerates a page that reads back badly', async () => {
+    const { services, generatedPages } = mockServices((pageIndex, read) => pageIndex === 0 && read === 1);
+    const events: PipelineEvent[] = [];
+    const result = await runPipeline(input, services, { onEvent: event => events.push(event) });
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+    expect(result.attempts).toBe(1);
+    expect(result.pages.every(page => (page.fidelity?.score ?? 0) >= DEFAULT_SETTINGS.fidelityThreshold)).toBe(true);
+    expect(result.pages[0].attempts).toBe(2);
+    expect(generatedPages()).toBe(result.pages.length + 1);
+    const fidelity = events.filter(event => event.type === 'page-fidelity');
+    expect(fidelity.map(event => event.type === 'page-fidelity' && event.passed).slice(0, 2)).toEqual([false, true]);
+  });
+
+  it('retries a run that fails validation and ends as failed once attempts run out', async () => {
+    const { services } = mockServices();
+    const rejecting: PipelineServices = {
+      ...services,
+      validateSolution: async () => ({ valid: false, reason: 'Blank page' }),
+    };
+    const events: PipelineEvent[] = [];
+    const result = await runPipeline(input, rejecting, { maxAttempts: 2, onEvent: event => events.push(event) });
+
+    expect(result).toMatchObject({ status: 'failed', kind: 'exhausted', attempts: 2 });
+    expect(events.filter(event => event.type === 'retry')).toHaveLength(1);
+    expect(events[events.length - 1]?.type).toBe('failure');
+  });
+
+  it('stops at once on an error no retry can get past', async () => {
+    const { services } = mockServices();
+    const result = await runPipeline(input, {
+      ...services,
+      transcribeMathProblem: async () => { throw new AuthError('API key not valid.'); },
+    }, { maxAttempts: 3 });
+
+    expect(result).toMatchObject({ status: 'failed', kind: 'auth', attempts: 1, message: 'ACCESS DENIED: API key not valid.' });
+  });
+
+  it('ends as cancelled when the run is cancelled mid-call', async () => {
+    const { services } = mockServices();
+    const control = createPipelineControl();
+    const result = await runPipeline(input, {
+      ...services,
+      solveMathProblem: (_text, options = {}) => {
+        control.cancel();
+        return untilAborted(options.signal);
+      },
+    }, { control });
+
+    expect(result).toEqual({ status: 'cancelled', attempts: 1 });
+  });
+
+  it('holds before the next call while paused and carries on when resumed', async () => {
+    const { services } = mockServices();
+    const control = createPipelineControl();
+    let transcribed = 0;
+    control.pause();
+    const pending = runPipeline(input, {
+      ...services,
+      transcribeMathProblem: async (file, options) => {
+        transcribed++;
+        return services.transcribeMathProblem(file, options);
+      },
+    }, { control });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(control.isPaused()).toBe(true);
+    expect(transcribed).toBe(0);
+
+    control.resume();
+    const result = await pending;
+    expect(transcribed).toBe(1);
+    expect(result.status).toBe('success');
+  });
+});
@@ -0,0 +1,544 @@
+import { AppSettings, CallUsage, CostReport, GeneratedPage, PageLayoutOptions, PageProgress, ProcessingState, ProcessingStep, ServiceErrorKind, StepModels, StructuredSolution, ValidationResult, VerificationReport } from "../types";
+import { ModelProvider, ServiceCallOptions } from "./modelProvider";
+import { DEFAULT_SETTINGS } from "./settingsService";
+import { paginateSolution } from "./solutionFormat";
+import { rulesNeeded } from "./handwritingRenderer";
+import { verifySolution } from "./verificationService";
+import { measureFidelity } from "./fidelityService";
+import { fullPageText } from "./pageLayout";
+import { ServiceError, failureMessage } from "./serviceErrors";
+import { buildCostReport } from "./costService";
+import { createRunId } from "./historyService";
+
+/**
+ * The service functions the pipeline depends on. Any ModelProvider satisfies
+ * this, and tests can pass plain stubs.
+ */
+export type PipelineServices = Pick<
+  ModelProvider,
+  'transcribeMathProblem' | 'solveMathProblem' | 'generateHandwrittenPage' | 'validateSolution' | 'readPageText'
+>;
+
+export interface PipelineInput {
+  questionFile: File;
+  handwritingFile: File;
+}
+
+/**
+ * 'exhausted' when every attempt failed; otherwise the kind of error that no retry
+ * can get past (a bad key, a missing model, a spent quota), which ends the run at once.
+ */
+export type PipelineFailureKind = Exclude<ServiceErrorKind, 'cancelled'> | 'exhausted';
+
+/**
+ * Handle the UI holds on to while a run is in flight.
+ * Cancelling aborts the in-flight service call. Pausing lets the current call
+ * finish and then holds the pipeline before its next call until resumed.
+ */
+export interface PipelineControl {
+  signal: AbortSignal;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  /** Resolves straight away unless paused; rejects once cancelled. */
+  checkpoint: () => Promise<void>;
+}
+
+export const createPipelineControl = (): PipelineControl => {
+  const abortController = new AbortController();
+  const { signal } = abortController;
+  let paused = false;
+  // Page workers reach checkpoints concurrently, so every one of them has to be woken
+  let waiting: (() => void)[] = [];
+
+  const resume = () => {
+    paused = false;
+    const release = waiting;
+    waiting = [];
+    release.forEach(wake => wake());
+  };
+
+  return {
+    signal,
+    cancel: () => {
+      abortController.abort();
+      // Wake paused checkpoints so they can observe the abort
+      resume();
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume,
+    isPaused: () => paused,
+    checkpoint: async () => {
+      signal.throwIfAborted();
+      if (paused) {
+        await new Promise<void>(resolve => { waiting.push(resolve); });
+        signal.throwIfAborted();
+      }
+    },
+  };
+};
+
+export type PipelineEvent =
+  | { type: 'step-started'; step: ProcessingStep; attempt: number; message: string; progress: number }
+  | { type: 'pages-progress'; attempt: number; pages: PageProgress[]; progress: number }
+  | { type: 'page-generated'; attempt: number; page: GeneratedPage; totalPages: number }
+  | { type: 'page-fidelity'; attempt: number; page: GeneratedPage; passed: boolean }
+  | { type: 'verification-result'; attempt: number; report: VerificationReport }
+  | { type: 'validation-result'; attempt: number; result: ValidationResult }
+  | { type: 'retry'; attempt: number; reason: string }
+  | { type: 'completed'; attempt: number; pages: GeneratedPage[] }
+  | { type: 'failure'; attempt: number; kind: PipelineFailureKind; error: unknown; message: string }
+  | { type: 'cancelled'; attempt: number };
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+/**
+ * Human checkpoints. Each hook receives the model output and resolves with the
+ * (possibly edited) value to continue with, or rejects to abort the run.
+ */
+export interface PipelineReviewHooks {
+  transcription?: (problemText: string) => Promise<string>;
+  solution?: (problemText: string, solutionPages: string[]) => Promise<string[]>;
+}
+
+export interface PipelineOptions {
+  settings?: AppSettings;
+  /** Overrides settings.maxAttempts. */
+  maxAttempts?: number;
+  /** Paper, header and numbering shared by every page of the run. */
+  layout?: PageLayoutOptions;
+  onEvent?: PipelineListener;
+  control?: PipelineControl;
+  review?: PipelineReviewHooks;
+}
+
+export type PipelineResult =
+  | {
+      status: 'success';
+      problemText: string;
+      /** Absent when the solution review rewrote the pages, since they no longer say the same thing. */
+      solution?: StructuredSolution;
+      verification?: VerificationReport;
+      solutionPages: string[];
+      pages: GeneratedPage[];
+      validation: ValidationResult;
+      /** Model behind each text step; pages record their own. */
+      models: StepModels;
+      /** Every billed call of the run, failed attempts included. */
+      cost: CostReport;
+      attempts: number;
+    }
+  | { status: 'failed'; kind: PipelineFailureKind; error: unknown; message: string; attempts: number }
+  | { status: 'cancelled'; attempts: number };
+
+/**
+ * An AbortController that also aborts when `parent` does, so a batch of calls can be stopped
+ * on its own (a sibling failed, the attempt is over) as well as by cancelling the run.
+ * `release` detaches it from the parent once the batch is done.
+ */
+const chainedController = (parent?: AbortSignal) => {
+  const controller = new AbortController();
+  const forward = () => controller.abort(parent?.reason);
+  if (parent?.aborted) forward();
+  else parent?.addEventListener('abort', forward, { once: true });
+  return { controller, release: () => parent?.removeEventListener('abort', forward) };
+};
+
+export interface RenderPagesOptions {
+  callOptions?: ServiceCallOptions;
+  attempt?: number;
+  onEvent?: PipelineListener;
+  checkpoint?: () => Promise<void>;
+}
+
+/**
+ * Step 3 on its own: renders the solution pages, up to `settings.pageConcurrency` at a time.
+ * Also used to re-render a revised answer outside a full pipeline run.
+ * Pages come back in order; the first failure aborts the pages still being written and
+ * stops the ones that haven't started yet.
+ */
+export const renderSolutionPages = async (
+  solutionPages: string[],
+  handwritingFile: File,
+  services: Pick<PipelineServices, 'generateHandwrittenPage'>,
+  options: RenderPagesOptions = {}
+): Promise<GeneratedPage[]> => {
+  const { callOptions = {}, attempt = 1, onEvent = () => {}, checkpoint = async () => {} } = options;
+  const totalPages = solutionPages.length;
+  const concurrency = Math.max(1, Math.min(totalPages, (callOptions.settings ?? DEFAULT_SETTINGS).pageConcurrency));
+  const pages: GeneratedPage[] = new Array(totalPages);
+  const progress: PageProgress[] = solutionPages.map((_, i) => ({ pageNumber: i + 1, status: 'queued' }));
+  let nextIndex = 0;
+  let failed = false;
+  // Sibling pages stop being generated, and billed, as soon as one of them fails
+  const pageCalls = chainedController(callOptions.signal);
+
+  const emitProgress = () => {
+    const done = progress.filter(p => p.status === 'done').length;
+    onEvent({ type: 'pages-progress', attempt, pages: [...progress], progress: 40 + (done / totalPages) * 40 });
+  };
+  const report = (index: number, patch: Omit<PageProgress, 'pageNumber'>) => {
+    // Pages still in flight after a failure belong to an attempt that is already over
+    if (failed) return;
+    progress[index] = { pageNumber: index + 1, ...patch };
+    emitProgress();
+  };
+
+  const worker = async () => {
+    while (nextIndex < totalPages && !failed) {
+      const i = nextIndex++;
+      await checkpoint();
+      report(i, { status: 'writing' });
+      try {
+        const { imageUrl, model, skipped } = await services.generateHandwrittenPage(handwritingFile, solutionPages[i], i, {
+          ...callOptions,
+          signal: pageCalls.controller.signal,
+          // A retried run asked for new pages, not the ones the cache handed back last time
+          refreshCache: callOptions.refreshCache || attempt > 1,
+          onRateLimited: (delayMs) => report(i, { status: 'rate-limited', retryAt: Date.now() + delayMs }),
+        });
+        pages[i] = { id: createRunId(), imageUrl, pageNumber: i + 1, sourceText: solutionPages[i], model, skipped, attempts: attempt };
+        report(i, { status: 'done' });
+        onEvent({ type: 'page-generated', attempt, page: pages[i], totalPages });
+      } catch (error) {
+        report(i, { status: 'failed' });
+        failed = true;
+        pageCalls.controller.abort();
+        throw error;
+      }
+    }
+  };
+
+  if (totalPages > 0) emitProgress();
+  try {
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  } finally {
+    pageCalls.release();
+  }
+  return pages;
+};
+
+/**
+ * Reads a page back and scores it against the text it was meant to contain,
+ * including any header and page number the run's layout adds.
+ */
+export const checkPageFidelity = async (
+  page: GeneratedPage,
+  services: Pick<PipelineServices, 'readPageText'>,
+  callOptions: ServiceCallOptions = {}
+): Promise<GeneratedPage> => {
+  const readText = await services.readPageText(page.imageUrl, callOptions);
+  const intended = fullPageText(callOptions.layout, page.pageNumber - 1, page.sourceText);
+  return { ...page, fidelity: measureFidelity(intended, readText) };
+};
+
+export interface FidelityOptions {
+  callOptions?: ServiceCallOptions;
+  attempt?: number;
+  onEvent?: PipelineListener;
+  checkpoint?: () => Promise<void>;
+}
+
+/**
+ * Checks a page and regenerates it while it reads back below
+ * `settings.fidelityThreshold`, up to `settings.maxPageRetries` times.
+ * Returns the best-scoring version, which may still be below the threshold.
+ */
+export const ensurePageFidelity = async (
+  page: GeneratedPage,
+  handwritingFile: File,
+  services: Pick<PipelineServices, 'generateHandwrittenPage' | 'readPageText'>,
+  options: FidelityOptions = {}
+): Promise<GeneratedPage> => {
+  const { callOptions = {}, attempt = 1, onEvent = () => {}, checkpoint = async () => {} } = options;
+  const { fidelityThreshold, maxPageRetries, pageRenderer } = callOptions.settings ?? DEFAULT_SETTINGS;
+  // The local renderer is deterministic; redrawing the same text gives the same page
+  const retryLimit = pageRenderer === 'local' ? 0 : maxPageRetries;
+
+  await checkpoint();
+  let best = await checkPageFidelity(page, services, callOptions);
+  let retries = 0;
+  while ((best.fidelity?.score ?? 0) < fidelityThreshold && retries < retryLimit) {
+    onEvent({ type: 'page-fidelity', attempt, page: best, passed: false });
+    retries++;
+    await checkpoint();
+    const regenerated = await regeneratePage(best, handwritingFile, services, best.sourceText, callOptions);
+    await checkpoint();
+    const checked = await checkPageFidelity(regenerated, services, callOptions);
+    if ((checked.fidelity?.score ?? 0) > (best.fidelity?.score ?? 0)) {
+      best = checked;
+    } else {
+      // Keep the better image but count the spent generation
+      best = { ...best, attempts: checked.attempts };
+    }
+  }
+  onEvent({ type: 'page-fidelity', attempt, page: best, passed: (best.fidelity?.score ?? 0) >= fidelityThreshold });
+  return best;
+};
+
+/**
+ * Runs transcribe → solve → generate → read back → validate, retrying the whole sequence
+ * up to `settings.maxAttempts` times. Progress is reported through `onEvent`; the
+ * returned promise never rejects.
+ */
+export const runPipeline = async (
+  input: PipelineInput,
+  services: PipelineServices,
+  options: PipelineOptions = {}
+): Promise<PipelineResult> => {
+  const { settings = DEFAULT_SETTINGS, layout, onEvent = () => {}, control, review = {} } = options;
+  const maxAttempts = options.maxAttempts ?? settings.maxAttempts;
+  const { questionFile, handwritingFile } = input;
+  const signal = control?.signal;
+  const models: StepModels = {};
+  const calls: CallUsage[] = [];
+  const callOptions: ServiceCallOptions = {
+    settings,
+    signal,
+    layout,
+    onModelUsed: (step, usage) => { models[step] = usage; },
+    onUsage: (usage) => { calls.push(usage); }
+  };
+  const checkpoint = control ? control.checkpoint : async () => {};
+
+  let attempts = 0;
+  // Once a human has approved a step, retries reuse it instead of asking the model again
+  let reviewedProblemText: string | null = null;
+  let reviewedSolution: string[] | null = null;
+  let solution: StructuredSolution | null = null;
+  let verification: VerificationReport | null = null;
+  // A rejected solution must not come straight back from the response cache
+  let refreshSolution = false;
+
+  while (attempts < maxAttempts) {
+    attempts++;
+    // Calls still running when the attempt ends (a failed or abandoned attempt) are aborted with it
+    const attemptCalls = chainedController(signal);
+    const attemptOptions: ServiceCallOptions = { ...callOptions, signal: attemptCalls.controller.signal };
+    try {
+      // 1. Transcribe
+      let problemText: string | null = reviewedProblemText;
+      if (problemText === null) {
+        await checkpoint();
+        onEvent({
+          type: 'step-started',
+          step: ProcessingStep.ANALYZING,
+          attempt: attempts,
+          message: `Reading problem (Attempt ${attempts})...`,
+          progress: 10
+        });
+        problemText = await services.transcribeMathProblem(questionFile, attemptOptions);
+
+        if (review.transcription) {
+          onEvent({
+            type: 'step-started',
+            step: ProcessingStep.AWAITING_TRANSCRIPTION_REVIEW,
+            attempt: attempts,
+            message: 'Awaiting review of transcription...',
+            progress: 20
+          });
+          problemText = await review.transcription(problemText);
+          reviewedProblemText = problemText;
+        }
+      }
+
+      // 2. Solve
+      let solutionSteps: string[] | null = reviewedSolution;
+      if (solutionSteps === null) {
+        await checkpoint();
+        onEvent({
+          type: 'step-started',
+          step: ProcessingStep.SOLVING,
+          attempt: attempts,
+          message: 'Solving problem step-by-step...',
+          progress: 30
+        });
+        solution = await services.solveMathProblem(problemText, refreshSolution ? { ...attemptOptions, refreshCache: true } : attemptOptions);
+
+        // Local algebra check; a wrong final answer is worth another solve while attempts remain
+        verification = verifySolution(problemText, solution);
+        onEvent({ type: 'verification-result', attempt: attempts, report: verification });
+        if (verification.confidence === 'low' && attempts < maxAttempts) {
+          refreshSolution = true;
+          onEvent({ type: 'retry', attempt: attempts, reason: `Answer failed verification: ${verification.finalAnswer.detail}` });
+          continue;
+        }
+
+        // Paginate with the renderer's rule count so a page of fractions still fits when drawn
+        solutionSteps = paginateSolution(solution, settings.linesPerPage, lines => rulesNeeded(lines.join('\n'), settings.localRenderer.lineSpacing));
+
+        if (solutionSteps.length === 0) {
+          if (attempts === maxAttempts) throw new Error("Could not solve the problem.");
+          refreshSolution = true;
+          onEvent({ type: 'retry', attempt: attempts, reason: 'Empty solution' });
+          continue;
+        }
+
+        if (review.solution) {
+          onEvent({
+            type: 'step-started',
+            step: ProcessingStep.AWAITING_SOLUTION_REVIEW,
+            attempt: attempts,
+            message: 'Awaiting review of solution pages...',
+            progress: 35
+          });
+          const paginated = solutionSteps;
+          solutionSteps = await review.solution(problemText, solutionSteps);
+          reviewedSolution = solutionSteps;
+          // Same as a chat revision: the structured solution and its check no longer apply to edited text
+          if (solutionSteps.length !== paginated.length || solutionSteps.some((page, i) => page !== paginated[i])) {
+            solution = null;
+            verification = null;
+          }
+        }
+      }
+
+      // 3. Generate Pages
+      let currentPages = await renderSolutionPages(solutionSteps, handwritingFile, services, {
+        callOptions: attemptOptions,
+        attempt: attempts,
+        onEvent,
+        checkpoint
+      });
+
+      // 4. Read each page back; only the ones that don't say what they should are redone
+      const checkedPages: GeneratedPage[] = [];
+      for (const page of currentPages) {
+        onEvent({
+          type: 'step-started',
+          step: ProcessingStep.CHECKING_FIDELITY,
+          attempt: attempts,
+          message: `Reading back page ${page.pageNumber}/${currentPages.length}...`,
+          progress: 80 + ((page.pageNumber - 1) / currentPages.length) * 10
+        });
+        checkedPages.push(await ensurePageFidelity(page, handwritingFile, services, {
+          callOptions: attemptOptions,
+          attempt: attempts,
+          onEvent,
+          checkpoint
+        }));
+      }
+      currentPages = checkedPages;
+
+      // 5. Validate
+      await checkpoint();
+      onEvent({
+        type: 'step-started',
+        step: ProcessingStep.VALIDATING,
+        attempt: attempts,
+        message: 'Verifying solution quality...',
+        progress: 90
+      });
+      const validation = await services.validateSolution(questionFile, currentPages.map(p => p.imageUrl), attemptOptions);
+      onEvent({ type: 'validation-result', attempt: attempts, result: validation });
+
+      if (validation.valid) {
+        onEvent({ type: 'completed', attempt: attempts, pages: currentPages });
+        return {
+          status: 'success',
+          problemText,
+          solution: solution ?? undefined,
+          verification: verification ?? undefined,
+          solutionPages: solutionSteps,
+          pages: currentPages,
+          validation,
+          models: { ...models },
+          cost: buildCostReport(calls, settings.pricing),
+          attempts
+        };
+      }
+
+      console.warn(`Attempt ${attempts} failed validation: ${validation.reason}`);
+      if (attempts === maxAttempts) {
+        throw new Error(`Validation failed: ${validation.reason || 'Output illegible'}`);
+      }
+      onEvent({ type: 'retry', attempt: attempts, reason: validation.reason || 'Validation failed' });
+
+    } catch (error: any) {
+      // Partial pages from a cancelled attempt are dropped with it
+      if (signal?.aborted || (error instanceof ServiceError && error.kind === 'cancelled')) {
+        onEvent({ type: 'cancelled', attempt: attempts });
+        return { status: 'cancelled', attempts };
+      }
+
+      console.error("Processing Error:", error);
+
+      // Another attempt would hit the same wall, so stop immediately
+      if (error instanceof ServiceError && !error.retryable && error.kind !== 'cancelled') {
+        const message = failureMessage(error);
+        onEvent({ type: 'failure', attempt: attempts, kind: error.kind, error, message });
+        return { status: 'failed', kind: error.kind, error, message, attempts };
+      }
+
+      // Only fail if we are out of attempts
+      if (attempts === maxAttempts) {
+        const message = failureMessage(error);
+        onEvent({ type: 'failure', attempt: attempts, kind: 'exhausted', error, message });
+        return { status: 'failed', kind: 'exhausted', error, message, attempts };
+      }
+      onEvent({ type: 'retry', attempt: attempts, reason: error?.message || 'Unknown error' });
+    } finally {
+      attemptCalls.controller.abort();
+      attemptCalls.release();
+    }
+  }
+
+  // Only reachable with maxAttempts < 1
+  const message = 'SYSTEM FAILURE: No attempts were made.';
+  return { status: 'failed', kind: 'exhausted', error: null, message, attempts };
+};
+
+/**
+ * Re-renders a single page, optionally from edited text, without rerunning the pipeline.
+ * Always skips the response cache: the point is a different image.
+ */
+export const regeneratePage = async (
+  page: GeneratedPage,
+  handwritingFile: File,
+  services: Pick<PipelineServices, 'generateHandwrittenPage'>,
+  sourceText: string = page.sourceText,
+  callOptions: ServiceCallOptions = {}
+): Promise<GeneratedPage> => {
+  const { imageUrl, model, skipped } = await services.generateHandwrittenPage(handwritingFile, sourceText, page.pageNumber - 1, {
+    ...callOptions,
+    refreshCache: true,
+  });
+  return { ...page, imageUrl, model, skipped, sourceText, attempts: page.attempts + 1 };
+};
+
+/**
+ * Maps a pipeline event onto the UI's ProcessingState.
+ * Returns null for events that don't change what the status panel shows.
+ */
+export const toProcessingState = (event: PipelineEvent): ProcessingState | null => {
+  switch (event.type) {
+    case 'step-started':
+      return { step: event.step, message: event.message, progress: event.progress };
+    case 'pages-progress': {
+      const done = event.pages.filter(p => p.status === 'done').length;
+      const limited = event.pages.some(p => p.status === 'rate-limited');
+      return {
+        step: ProcessingStep.GENERATING_PAGES,
+        message: `Writing pages (${done}/${event.pages.length} done)${limited ? ', waiting out rate limit' : ''}...`,
+        progress: event.progress,
+        pages: event.pages
+      };
+    }
+    case 'completed':
+      return { step: ProcessingStep.COMPLETED, message: 'Sequence Complete. Output Verified.', progress: 100 };
+    case 'failure':
+      return {
+        step: ProcessingStep.ERROR,
+        message: event.message,
+        progress: 0,
+        ...(event.error instanceof ServiceError ? { errorKind: event.error.kind } : {})
+      };
+    case 'cancelled':
+      return { step: ProcessingStep.IDLE, message: 'Run cancelled.', progress: 0 };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,108 @@
+/**
+ * A rectangle on a rendered page, in fractions (0–1) of the page's width and height
+ * so it stays valid at any display size.
+ */
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectionOptions {
+  /** Luminance (0–255) below which a pixel counts as ink. */
+  inkThreshold?: number;
+  /** Padding added around each detected block, as a fraction of page height. */
+  padding?: number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Splits a rendered question sheet into likely problems.
+ *
+ * Heuristic: find runs of rows containing ink (text lines), then cut wherever the
+ * vertical whitespace between lines is clearly larger than normal line spacing.
+ * Numbered problems are almost always separated that way. The result is only a
+ * starting point; the crop editor lets the user fix it.
+ */
+export const detectProblemRegions = (canvas: HTMLCanvasElement, options: DetectionOptions = {}): CropRegion[] => {
+  const { inkThreshold = 160, padding = 0.01 } = options;
+  const { width, height } = canvas;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || width === 0 || height === 0) return [];
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const isInk = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    return luminance < inkThreshold;
+  };
+
+  // 1. Rows with ink
+  const minRowInk = Math.max(2, Math.round(width * 0.002));
+  const rowHasInk: boolean[] = [];
+  for (let y = 0; y < height; y++) {
+    let count = 0;
+    for (let x = 0; x < width && count < minRowInk; x++) {
+      if (isInk(x, y)) count++;
+    }
+    rowHasInk.push(count >= minRowInk);
+  }
+
+  // 2. Runs of ink rows (≈ text lines)
+  const runs: { start: number; end: number }[] = [];
+  for (let y = 0; y < height; y++) {
+    if (!rowHasInk[y]) continue;
+    const last = runs[runs.length - 1];
+    if (last && y - last.end <= 2) {
+      last.end = y;
+    } else {
+      runs.push({ start: y, end: y });
+    }
+  }
+  if (runs.length === 0) return [];
+
+  // 3. Cut where a gap is much larger than typical line spacing
+  const gaps = runs.slice(1).map((run, i) => run.start - runs[i].end);
+  const splitGap = Math.max(median(gaps) * 2.2, height * 0.015);
+
+  const blocks: { start: number; end: number }[] = [{ ...runs[0] }];
+  runs.slice(1).forEach((run, i) => {
+    if (gaps[i] > splitGap) {
+      blocks.push({ ...run });
+    } else {
+      blocks[blocks.length - 1].end = run.end;
+    }
+  });
+
+  // 4. Horizontal extent per block, padded, tiny specks dropped
+  const minBlockHeight = height * 0.01;
+  const pad = padding * height;
+
+  return blocks
+    .filter(block => block.end - block.start >= minBlockHeight)
+    .map(block => {
+      let left = width;
+      let right = 0;
+      for (let y = block.start; y <= block.end; y++) {
+        for (let x = 0; x < width; x++) {
+          if (isInk(x, y)) {
+            if (x < left) left = x;
+            if (x > right) right = x;
+          }
+        }
+      }
+      const x0 = clamp01((left - pad) / width);
+      const y0 = clamp01((block.start - pad) / height);
+      const x1 = clamp01((right + pad) / width);
+      const y1 = clamp01((block.end + pad) / height);
+      return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+    });
+};
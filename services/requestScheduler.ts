@@ -0,0 +1,79 @@
+import { classifyError } from "./serviceErrors";
+
+// Backoff bounds for rate-limited requests
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60000;
+// Spread added to server retry hints so parallel requests don't all return at the same instant
+const RETRY_HINT_JITTER_MS = 500;
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  /** Rate-limit retries before the error is passed on. */
+  maxRetries?: number;
+  /** Called whenever the request has to wait out a rate limit. */
+  onRateLimited?: (delayMs: number) => void;
+}
+
+export interface RequestScheduler {
+  run: <T>(task: () => Promise<T>, options?: ScheduleOptions) => Promise<T>;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * The wait the server asked for, in milliseconds: a Retry-After header, a RetryInfo
+ * `retryDelay` ("37s") or a "retry in 37.6s" hint in the message. Null if there is none.
+ */
+export const retryAfterMs = (error: any): number | null => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.response?.headers?.get?.('retry-after');
+  if (header && Number.isFinite(Number(header))) return Number(header) * 1000;
+
+  const text = `${error?.message || ''} ${JSON.stringify(error) || ''}`;
+  const match = /"retryDelay"\s*:\s*\\?"(\d+(?:\.\d+)?)s/.exec(text) ?? /retry in (\d+(?:\.\d+)?)\s*s/i.exec(text);
+  return match ? Math.ceil(Number(match[1]) * 1000) : null;
+};
+
+/**
+ * Exponential backoff with full jitter: a random wait up to base · 2^retry, capped.
+ */
+export const backoffDelay = (retry: number, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** retry));
+
+/**
+ * Runs requests and retries the rate-limited ones. The cool-down is shared: once any
+ * request is told to back off, every request through this scheduler waits it out
+ * before its next call, instead of each one spending its own retries on a quota
+ * that is already exhausted.
+ */
+export const createRequestScheduler = (): RequestScheduler => {
+  let resumeAt = 0;
+
+  const run = async <T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+    const { signal, maxRetries = 4, onRateLimited } = options;
+    for (let retry = 0; ; retry++) {
+      const pause = resumeAt - Date.now();
+      if (pause > 0) {
+        onRateLimited?.(pause);
+        await sleep(pause, signal);
+      }
+      try {
+        return await task();
+      } catch (error) {
+        if (signal?.aborted || retry >= maxRetries || classifyError(error) !== 'quota') throw error;
+        const hint = retryAfterMs(error);
+        const delay = hint !== null ? hint + Math.round(Math.random() * RETRY_HINT_JITTER_MS) : backoffDelay(retry);
+        resumeAt = Math.max(resumeAt, Date.now() + delay);
+        console.warn(`Rate limited; retrying in ${(delay / 1000).toFixed(1)}s (retry ${retry + 1}/${maxRetries}).`);
+      }
+    }
+  };
+
+  return { run };
+};
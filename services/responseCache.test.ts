@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { evictionPolicy } from './responseCache';
+
+/** Sizes of the entries the policy drops, fed to it newest first as the eviction cursor does. */
+const evicted = (sizes: number[], maxBytes: number, maxEntries: number) => {
+  const evict = evictionPolicy(maxBytes, maxEntries);
+  return sizes.map((size, i) => (evict(size) ? i : -1)).filter(i => i >= 0);
+};
+
+describe('evictionPolicy', () => {
+  const sizes = [40, 40, 40];
+
+  it('keeps everything under the caps', () => {
+    expect(evicted(sizes, 120, 3)).toEqual([]);
+  });
+
+  it('drops the least recently used entries past the byte cap', () => {
+    expect(evicted(sizes, 100, 10)).toEqual([2]);
+    expect(evicted(sizes, 50, 10)).toEqual([1, 2]);
+  });
+
+  it('drops the least recently used entries past the entry cap', () => {
+    expect(evicted(sizes, 1000, 1)).toEqual([1, 2]);
+  });
+
+  it('keeps the newest entry even when it alone is over the byte cap', () => {
+    expect(evicted(sizes, 10, 10)).toEqual([1, 2]);
+  });
+
+  it('drops every entry older than the first one that does not fit', () => {
+    expect(evicted([40, 80, 10], 60, 10)).toEqual([1, 2]);
+  });
+});
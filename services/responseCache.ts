@@ -0,0 +1,100 @@
+import { CachedResponse, ModelStep } from "../types";
+import { RESPONSE_CACHE_STORE, RESPONSE_LAST_USED_INDEX, withStore } from "./localDb";
+
+// Page images dominate the cache, so the byte cap is what normally bites
+export const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+export const MAX_CACHE_ENTRIES = 500;
+
+/**
+ * SHA-256 of a request description, as hex. Null where Web Crypto isn't available
+ * (insecure origins), in which case nothing is cached.
+ */
+export const hashRequest = async (request: unknown): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const bytes = new TextEncoder().encode(JSON.stringify(request));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * The cached value for a key, or undefined. A hit is counted on the entry.
+ */
+export const getCachedResponse = async (key: string): Promise<unknown | undefined> => {
+  const entry = await withStore(RESPONSE_CACHE_STORE, 'readonly', store => store.get(key) as IDBRequest<CachedResponse | undefined>);
+  if (!entry) return undefined;
+  // Bookkeeping only, so a failed write doesn't cost the hit
+  withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.put({ ...entry, hits: entry.hits + 1, lastUsedAt: Date.now() }))
+    .catch(e => console.warn("Response cache update failed", e));
+  return entry.value;
+};
+
+export const putCachedResponse = async (key: string, step: ModelStep, model: string, value: unknown): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedResponse = {
+    key,
+    step,
+    model,
+    value,
+    size: JSON.stringify(value)?.length ?? 0,
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+  };
+  await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.put(entry));
+  await evictLeastRecentlyUsed().catch(e => console.warn("Response cache eviction failed", e));
+};
+
+/**
+ * Decides, entry by entry from the most recently used down, which entries to drop so the
+ * rest fit the caps: true means evict. Once one entry is dropped every older one goes too.
+ * The newest entry always stays, even if it alone is over the byte cap.
+ */
+export const evictionPolicy = (maxBytes = MAX_CACHE_BYTES, maxEntries = MAX_CACHE_ENTRIES) => {
+  let kept = 0;
+  let bytes = 0;
+  let full = false;
+  return (size: number): boolean => {
+    if (kept > 0 && (full || kept >= maxEntries || bytes + size > maxBytes)) {
+      full = true;
+      return true;
+    }
+    kept++;
+    bytes += size;
+    return false;
+  };
+};
+
+const evictLeastRecentlyUsed = async (): Promise<void> => {
+  const evict = evictionPolicy();
+  await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => {
+    // A key cursor over [lastUsedAt, size] never loads the cached values (page images)
+    const request = store.index(RESPONSE_LAST_USED_INDEX).openKeyCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const [, size] = cursor.key as [number, number];
+      if (evict(size)) store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    return request;
+  });
+};
+
+/**
+ * All cached responses, most recently used first.
+ */
+export const listCachedResponses = async (): Promise<CachedResponse[]> => {
+  const entries = await withStore(RESPONSE_CACHE_STORE, 'readonly', store => store.getAll() as IDBRequest<CachedResponse[]>);
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const deleteCachedResponse = async (key: string): Promise<void> => {
+  await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.delete(key));
+};
+
+/**
+ * Removes every cached response.
+ */
+export const clearResponseCache = async (): Promise<void> => {
+  await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,189 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@google/genai';
+import { AppSettings } from '../types';
+import {
+  AuthError,
+  CancelledError,
+  MalformedResponseError,
+  ModelUnavailableError,
+  NetworkError,
+  QuotaError,
+  SafetyBlockedError,
+  classifyError,
+  failureMessage,
+  toServiceError,
+} from './serviceErrors';
+import { retryAfterMs } from './requestScheduler';
+import { generateHandwrittenPage, setApiKey, solveMathProblem, validateSolution } from './geminiService';
+import { DEFAULT_SETTINGS } from './settingsService';
+
+// Every Gemini call answers with whatever the test puts here
+const gemini = vi.hoisted(() => ({ response: {} as Record<string, unknown> }));
+
+vi.mock('@google/genai', async importOriginal => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  return {
+    ...actual,
+    GoogleGenAI: class {
+      models = { generateContent: async () => Object.assign(new actual.GenerateContentResponse(), gemini.response) };
+    },
+  };
+});
+
+// What the SDK throws: the HTTP status plus the API's JSON error body as the message
+const apiError = (status: number, error: Record<string, unknown>) =>
+  new ApiError({ status, message: JSON.stringify({ error: { code: status, ...error } }) });
+
+describe('classifyError', () => {
+  it('treats 401, 403 and API_KEY_INVALID as auth', () => {
+    expect(classifyError(apiError(401, { status: 'UNAUTHENTICATED', message: 'Request had invalid credentials.' }))).toBe('auth');
+    expect(classifyError(apiError(403, { status: 'PERMISSION_DENIED', message: 'Permission denied.' }))).toBe('auth');
+    const invalidKey = apiError(400, {
+      status: 'INVALID_ARGUMENT',
+      message: 'API key not valid. Please pass a valid API key.',
+      details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }],
+    });
+    expect(classifyError(invalidKey)).toBe('auth');
+    expect(toServiceError(invalidKey)).toBeInstanceOf(AuthError);
+  });
+
+  it('treats 429 and RESOURCE_EXHAUSTED as quota and keeps the RetryInfo delay readable', () => {
+    const limited = apiError(429, {
+      status: 'RESOURCE_EXHAUSTED',
+      message: 'You exceeded your current quota.',
+      details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' }],
+    });
+    expect(classifyError(limited)).toBe('quota');
+    expect(retryAfterMs(limited)).toBe(37_000);
+
+    const wrapped = toServiceError(limited);
+    expect(wrapped).toBeInstanceOf(QuotaError);
+    expect((wrapped as QuotaError).message).toBe('You exceeded your current quota.');
+    expect((wrapped as QuotaError).retryable).toBe(false);
+    expect((wrapped as QuotaError).cause).toBe(limited);
+  });
+
+  it('treats 404 as an unavailable model', () => {
+    const missing = apiError(404, { status: 'NOT_FOUND', message: 'models/gemini-9 is not found.' });
+    expect(classifyError(missing)).toBe('model-unavailable');
+    expect(toServiceError(missing)).toBeInstanceOf(ModelUnavailableError);
+  });
+
+  it('treats 5xx and UNAVAILABLE as network failures', () => {
+    expect(classifyError(apiError(500, { status: 'INTERNAL', message: 'Internal error.' }))).toBe('network');
+    expect(classifyError(apiError(503, { status: 'UNAVAILABLE', message: 'The model is overloaded.' }))).toBe('network');
+    expect(classifyError({ message: JSON.stringify({ error: { status: 'UNAVAILABLE' } }) })).toBe('network');
+    expect(toServiceError(apiError(503, { status: 'UNAVAILABLE' }))).toBeInstanceOf(NetworkError);
+  });
+
+  it('treats a failed fetch as a network failure', () => {
+    const offline = new TypeError('Failed to fetch');
+    expect(classifyError(offline)).toBe('network');
+    expect((toServiceError(offline) as NetworkError).retryable).toBe(true);
+  });
+
+  it('treats an AbortError or an aborted signal as cancelled', () => {
+    const aborted = new DOMException('The operation was aborted.', 'AbortError');
+    expect(classifyError(aborted)).toBe('cancelled');
+    expect(toServiceError(aborted)).toBeInstanceOf(CancelledError);
+
+    const controller = new AbortController();
+    controller.abort();
+    expect(classifyError(new Error('anything'), controller.signal)).toBe('cancelled');
+  });
+
+  it('does not classify an error whose text merely contains "403"', () => {
+    const unrelated = new Error('Order 403 could not be parsed');
+    expect(classifyError(unrelated)).toBeNull();
+    expect(toServiceError(unrelated)).toBe(unrelated);
+    expect(classifyError(new Error('{"note": "status 403 permission"}'))).toBeNull();
+  });
+
+  it('passes ServiceErrors through unchanged', () => {
+    const error = new AuthError('No API key configured.');
+    expect(classifyError(error)).toBe('auth');
+    expect(toServiceError(error)).toBe(error);
+  });
+});
+
+describe('errors raised from model responses', () => {
+  const MODEL = 'test-model';
+  // One model per step, no cache: each call reaches the mocked response exactly once
+  const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    models: { ...DEFAULT_SETTINGS.models, solver: MODEL, image: MODEL, validation: MODEL },
+    fallbacks: {
+      ...DEFAULT_SETTINGS.fallbacks,
+      solver: { ...DEFAULT_SETTINGS.fallbacks.solver, models: [] },
+      image: { ...DEFAULT_SETTINGS.fallbacks.image, models: [] },
+    },
+    responseCache: { ...DEFAULT_SETTINGS.responseCache, enabled: false },
+  };
+  const file = new File(['image'], 'page.png', { type: 'image/png' });
+  const textResponse = (text: string) => ({ candidates: [{ content: { parts: [{ text }] }, finishReason: 'STOP' }] });
+
+  const failure = async (call: Promise<unknown>) => {
+    const error = await call.then(() => null, (e: unknown) => e);
+    expect(error).not.toBeNull();
+    return error;
+  };
+
+  beforeAll(() => {
+    setApiKey('test-key');
+    // Node has no FileReader; the content of the reference image doesn't matter here
+    vi.stubGlobal('FileReader', class {
+      result: string | null = null;
+      onloadend: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      readAsDataURL() {
+        this.result = 'data:image/png;base64,AAAA';
+        queueMicrotask(() => this.onloadend?.());
+      }
+    });
+  });
+
+  it('reports a blocked prompt as safety-blocked', async () => {
+    gemini.response = { promptFeedback: { blockReason: 'SAFETY' } };
+    const error = await failure(solveMathProblem('x + 1 = 2', { settings }));
+    expect(error).toBeInstanceOf(SafetyBlockedError);
+    expect(classifyError(error)).toBe('safety-blocked');
+    expect(failureMessage(error)).toBe(`BLOCKED BY SAFETY FILTER: Prompt blocked by ${MODEL} (SAFETY).`);
+
+    gemini.response = { promptFeedback: { blockReason: 'OTHER', blockReasonMessage: 'The prompt was blocked.' } };
+    expect(failureMessage(await failure(solveMathProblem('x + 1 = 2', { settings })))).toBe('BLOCKED BY SAFETY FILTER: The prompt was blocked.');
+  });
+
+  it('reports output withheld by a filter as safety-blocked', async () => {
+    gemini.response = { candidates: [{ content: { parts: [] }, finishReason: 'IMAGE_SAFETY' }] };
+    const error = await failure(generateHandwrittenPage(file, 'x = 1', 0, { settings }));
+    expect(classifyError(error)).toBe('safety-blocked');
+    expect((error as SafetyBlockedError).retryable).toBe(true);
+    expect(failureMessage(error)).toBe(`BLOCKED BY SAFETY FILTER: ${MODEL} withheld its output (IMAGE_SAFETY).`);
+  });
+
+  it('reports a page response without an image as malformed', async () => {
+    gemini.response = textResponse('Here is your page!');
+    const error = await failure(generateHandwrittenPage(file, 'x = 1', 0, { settings }));
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect(classifyError(error)).toBe('malformed-response');
+    expect(failureMessage(error)).toBe('BAD RESPONSE: No image generated in response');
+  });
+
+  it('reports a solution that is not valid JSON or misses fields as malformed', async () => {
+    gemini.response = textResponse('The answer is 1.');
+    const error = await failure(solveMathProblem('x + 1 = 2', { settings }));
+    expect(classifyError(error)).toBe('malformed-response');
+    expect(failureMessage(error)).toBe('BAD RESPONSE: Malformed solution: response is not valid JSON.');
+
+    gemini.response = textResponse(JSON.stringify({ restatement: 'Solve x + 1 = 2.', steps: [], finalAnswer: 'x = 1' }));
+    expect(failureMessage(await failure(solveMathProblem('x + 1 = 2', { settings }))))
+      .toBe('BAD RESPONSE: Malformed solution: steps must be a non-empty array.');
+  });
+
+  it('reports a validation reply that is not JSON as malformed', async () => {
+    gemini.response = textResponse('Looks fine to me');
+    const error = await failure(validateSolution(file, ['data:image/png;base64,AAAA'], { settings }));
+    expect(classifyError(error)).toBe('malformed-response');
+    expect(failureMessage(error)).toMatch(/^BAD RESPONSE: Validation could not run: /);
+  });
+});
@@ -0,0 +1,162 @@
+import { ServiceErrorKind } from "../types";
+
+/**
+ * A model call failure, classified at the service boundary so callers decide on
+ * fallbacks (see modelChain.ts), retries and messages by kind instead of searching error text.
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  /** Whether a fresh pipeline attempt could get past it. */
+  readonly retryable: boolean;
+  /** The error as the SDK raised it, if there was one. */
+  readonly cause: unknown;
+
+  constructor(kind: ServiceErrorKind, message: string, retryable: boolean, cause?: unknown) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+/** Invalid or missing key, or a key without access to the model. */
+export class AuthError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('auth', message, false, cause);
+    this.name = 'AuthError';
+  }
+}
+
+/** Rate limit or quota still exhausted after the scheduler's retries. */
+export class QuotaError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('quota', message, false, cause);
+    this.name = 'QuotaError';
+  }
+}
+
+/** The prompt or the output was blocked by the model's safety filters. */
+export class SafetyBlockedError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('safety-blocked', message, true, cause);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+/** The configured model doesn't exist or isn't served for this key. */
+export class ModelUnavailableError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('model-unavailable', message, false, cause);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+/** The call succeeded but the response couldn't be used (bad JSON, no image). */
+export class MalformedResponseError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('malformed-response', message, true, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/** The request never got a proper answer: offline, timed out or a 5xx from the service. */
+export class NetworkError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class CancelledError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('cancelled', 'Request cancelled.', false, cause);
+    this.name = 'CancelledError';
+  }
+}
+
+interface ApiErrorBody {
+  code?: number;
+  status?: string;
+  message?: string;
+  details?: { reason?: string }[];
+}
+
+/**
+ * The JSON error body the Gemini API sends, which the SDK passes on as the message.
+ */
+const parseErrorBody = (error: any): ApiErrorBody => {
+  const message = typeof error?.message === 'string' ? error.message : '';
+  const start = message.indexOf('{');
+  if (start === -1) return {};
+  try {
+    const parsed = JSON.parse(message.slice(start));
+    return parsed?.error && typeof parsed.error === 'object' ? parsed.error : {};
+  } catch {
+    return {};
+  }
+};
+
+const AUTH_STATUSES = ['UNAUTHENTICATED', 'PERMISSION_DENIED'];
+const NETWORK_STATUSES = ['UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED'];
+
+/**
+ * Works out what kind of failure a raw error is from its HTTP status and API error
+ * status, never from digits that happen to appear in the text. Null if it isn't one
+ * of the known kinds.
+ */
+export const classifyError = (error: unknown, signal?: AbortSignal): ServiceErrorKind | null => {
+  if (error instanceof ServiceError) return error.kind;
+  const err = error as any;
+  if (signal?.aborted || err?.name === 'AbortError') return 'cancelled';
+
+  const body = parseErrorBody(err);
+  const code = typeof err?.status === 'number' ? err.status : body.code;
+  const status = body.status ?? (typeof err?.status === 'string' ? err.status : undefined);
+  const reasons = (body.details ?? []).map(detail => detail?.reason);
+
+  if (code === 401 || code === 403 || AUTH_STATUSES.includes(status ?? '') || reasons.includes('API_KEY_INVALID')) return 'auth';
+  if (code === 429 || status === 'RESOURCE_EXHAUSTED') return 'quota';
+  if (code === 404 || status === 'NOT_FOUND') return 'model-unavailable';
+  if ((code !== undefined && code >= 500) || NETWORK_STATUSES.includes(status ?? '')) return 'network';
+  // fetch rejects with a TypeError when the request never reaches the server
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) return 'network';
+  return null;
+};
+
+/**
+ * Wraps a raw error in the matching ServiceError. Errors of no known kind are
+ * returned unchanged.
+ */
+export const toServiceError = (error: unknown, signal?: AbortSignal): unknown => {
+  if (error instanceof ServiceError) return error;
+  const message = parseErrorBody(error).message || (error as any)?.message || 'Unknown error.';
+  switch (classifyError(error, signal)) {
+    case 'auth': return new AuthError(message, error);
+    case 'quota': return new QuotaError(message, error);
+    case 'safety-blocked': return new SafetyBlockedError(message, error);
+    case 'model-unavailable': return new ModelUnavailableError(message, error);
+    case 'malformed-response': return new MalformedResponseError(message, error);
+    case 'network': return new NetworkError(message, error);
+    case 'cancelled': return new CancelledError(error);
+    default: return error;
+  }
+};
+
+const FAILURE_PREFIXES: Record<ServiceErrorKind, string> = {
+  'auth': 'ACCESS DENIED',
+  'quota': 'QUOTA EXHAUSTED',
+  'safety-blocked': 'BLOCKED BY SAFETY FILTER',
+  'model-unavailable': 'MODEL UNAVAILABLE',
+  'malformed-response': 'BAD RESPONSE',
+  'network': 'NETWORK ERROR',
+  'cancelled': 'CANCELLED',
+};
+
+/**
+ * The user-facing message for a failed run.
+ */
+export const failureMessage = (error: unknown): string => {
+  const prefix = error instanceof ServiceError ? FAILURE_PREFIXES[error.kind] : 'SYSTEM FAILURE';
+  return `${prefix}: ${(error as any)?.message || 'Unknown error.'}`;
+};
@@ -0,0 +1,426 @@
+import {
+  AppSettings,
+  AspectRatio,
+  FallbackChain,
+  HandwritingFont,
+  ImageSize,
+  LocalRendererSettings,
+  ModelPrice,
+  PageRenderer,
+  PaperStyle,
+  PdfExportSettings,
+  PdfImageFit,
+  PdfImageFormat,
+  PdfPageSize,
+  ServiceErrorKind
+} from "../types";
+
+const STORAGE_KEY = 'mathmimic.settings';
+
+export const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9'];
+
+export const MAX_THINKING_BUDGET = 32768;
+
+export const MAX_FALLBACK_MODELS = 4;
+
+// Error kinds a fallback chain can advance on; a cancelled call never moves on
+export const FALLBACK_ERROR_KINDS: ServiceErrorKind[] = ['auth', 'quota', 'model-unavailable', 'safety-blocked', 'malformed-response', 'network'];
+
+const DEFAULT_ADVANCE_ON: ServiceErrorKind[] = ['auth', 'quota', 'model-unavailable'];
+
+export const MAX_ATTEMPTS_LIMIT = 10;
+
+export const MIN_LINES_PER_PAGE = 4;
+export const MAX_LINES_PER_PAGE = 40;
+
+export const MAX_PAGE_RETRIES = 5;
+
+export const MAX_PAGE_CONCURRENCY = 4;
+
+export const MAX_RATE_LIMIT_RETRIES = 8;
+
+export const MAX_SPENDING_CAP = 100000;
+
+export const PAGE_RENDERERS: PageRenderer[] = ['model', 'local'];
+
+export const PAPER_STYLES: PaperStyle[] = ['ruled', 'grid', 'blank', 'legal-pad'];
+
+export const PAPER_LABELS: Record<PaperStyle, string> = {
+  ruled: 'RULED',
+  grid: 'GRAPH',
+  blank: 'PLAIN',
+  'legal-pad': 'LEGAL PAD',
+};
+
+export const HANDWRITING_FONTS: HandwritingFont[] = ['Caveat', 'Patrick Hand', 'Indie Flower', 'Homemade Apple'];
+
+export const MAX_SLANT = 30;
+
+export const MIN_LINE_SPACING = 120;
+export const MAX_LINE_SPACING = 300;
+
+export const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const PDF_PAGE_SIZES: PdfPageSize[] = ['a4', 'letter', 'custom'];
+
+export const PDF_IMAGE_FITS: PdfImageFit[] = ['fit', 'fill'];
+
+export const PDF_IMAGE_FORMATS: PdfImageFormat[] = ['png', 'jpeg'];
+
+// Bounds for the custom page size, in millimetres
+export const MIN_PAGE_DIMENSION = 50;
+export const MAX_PAGE_DIMENSION = 1000;
+
+export const MAX_PDF_MARGIN = 50;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  models: {
+    transcription: 'gemini-2.5-flash',
+    solver: 'gemini-3-pro-preview',
+    image: 'gemini-3-pro-image-preview',
+    validation: 'gemini-2.5-flash',
+    ocr: 'gemini-2.5-flash',
+    chat: 'gemini-2.5-flash',
+  },
+  fallbacks: {
+    transcription: { models: [], advanceOn: DEFAULT_ADVANCE_ON },
+    solver: { models: ['gemini-2.5-flash'], advanceOn: DEFAULT_ADVANCE_ON },
+    image: { models: ['gemini-2.5-flash-image'], advanceOn: DEFAULT_ADVANCE_ON },
+    validation: { models: [], advanceOn: DEFAULT_ADVANCE_ON },
+    ocr: { models: [], advanceOn: DEFAULT_ADVANCE_ON },
+    chat: { models: [], advanceOn: DEFAULT_ADVANCE_ON },
+  },
+  thinkingBudget: {
+    solver: 2048,
+    solverFallback: 1024,
+  },
+  imageSize: '2K',
+  aspectRatio: '3:4',
+  maxAttempts: 3,
+  linesPerPage: 14,
+  fidelityThreshold: 80,
+  maxPageRetries: 2,
+  pageConcurrency: 2,
+  rateLimitRetries: 4,
+  // Published per-model USD rates at the time of writing; edit them in Settings when they change
+  pricing: {
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+    'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: 0 },
+    'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: 0.134 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0.039 },
+  },
+  monthlySpendingCap: 0,
+  responseCache: {
+    enabled: true,
+    pageImages: false,
+  },
+  pageRenderer: 'model',
+  localRenderer: {
+    font: 'Caveat',
+    slant: 8,
+    jitter: 30,
+    baselineWobble: 20,
+    inkColor: '#1a2a6c',
+    paper: 'ruled',
+    lineSpacing: 160,
+  },
+  pdfExport: {
+    pageSize: 'a4',
+    customWidth: 210,
+    customHeight: 297,
+    fit: 'fit',
+    margin: 0,
+    imageFormat: 'png',
+    jpegQuality: 85,
+    targetSizeKb: 0,
+    coverPage: false,
+    author: '',
+    fileName: 'MathSolution',
+  },
+};
+
+export type SettingsErrors = Partial<Record<string, string>>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks an arbitrary value against the settings schema.
+ * Errors are keyed by dotted field path (e.g. "models.solver") so the panel can show them inline.
+ */
+export const validateSettings = (raw: unknown): { settings: AppSettings | null; errors: SettingsErrors } => {
+  const errors: SettingsErrors = {};
+  if (!isPlainObject(raw)) {
+    return { settings: null, errors: { root: 'Settings must be an object.' } };
+  }
+
+  const models = isPlainObject(raw.models) ? raw.models : {};
+  for (const key of Object.keys(DEFAULT_SETTINGS.models) as (keyof AppSettings['models'])[]) {
+    const value = models[key];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      errors[`models.${key}`] = 'Model name is required.';
+    }
+  }
+
+  const fallbacks = isPlainObject(raw.fallbacks) ? raw.fallbacks : {};
+  for (const key of Object.keys(DEFAULT_SETTINGS.fallbacks) as (keyof AppSettings['fallbacks'])[]) {
+    const chain = isPlainObject(fallbacks[key]) ? fallbacks[key] as Record<string, unknown> : {};
+    if (!Array.isArray(chain.models) || !chain.models.every(model => typeof model === 'string' && model.trim().length > 0)) {
+      errors[`fallbacks.${key}.models`] = 'Must be a list of model names.';
+    } else if (chain.models.length > MAX_FALLBACK_MODELS) {
+      errors[`fallbacks.${key}.models`] = `At most ${MAX_FALLBACK_MODELS} fallback models.`;
+    }
+    if (!Array.isArray(chain.advanceOn) || !chain.advanceOn.every(kind => FALLBACK_ERROR_KINDS.includes(kind))) {
+      errors[`fallbacks.${key}.advanceOn`] = `Must only contain ${FALLBACK_ERROR_KINDS.join(', ')}.`;
+    }
+  }
+
+  const thinkingBudget = isPlainObject(raw.thinkingBudget) ? raw.thinkingBudget : {};
+  for (const key of Object.keys(DEFAULT_SETTINGS.thinkingBudget) as (keyof AppSettings['thinkingBudget'])[]) {
+    if (!isIntegerInRange(thinkingBudget[key], 0, MAX_THINKING_BUDGET)) {
+      errors[`thinkingBudget.${key}`] = `Must be a whole number between 0 and ${MAX_THINKING_BUDGET}.`;
+    }
+  }
+
+  if (!IMAGE_SIZES.includes(raw.imageSize as ImageSize)) {
+    errors.imageSize = `Must be one of ${IMAGE_SIZES.join(', ')}.`;
+  }
+  if (!ASPECT_RATIOS.includes(raw.aspectRatio as AspectRatio)) {
+    errors.aspectRatio = `Must be one of ${ASPECT_RATIOS.join(', ')}.`;
+  }
+  if (!isIntegerInRange(raw.maxAttempts, 1, MAX_ATTEMPTS_LIMIT)) {
+    errors.maxAttempts = `Must be a whole number between 1 and ${MAX_ATTEMPTS_LIMIT}.`;
+  }
+
+  if (!isIntegerInRange(raw.linesPerPage, MIN_LINES_PER_PAGE, MAX_LINES_PER_PAGE)) {
+    errors.linesPerPage = `Must be a whole number between ${MIN_LINES_PER_PAGE} and ${MAX_LINES_PER_PAGE}.`;
+  }
+
+  if (!isIntegerInRange(raw.fidelityThreshold, 0, 100)) {
+    errors.fidelityThreshold = 'Must be a whole number between 0 and 100.';
+  }
+  if (!isIntegerInRange(raw.maxPageRetries, 0, MAX_PAGE_RETRIES)) {
+    errors.maxPageRetries = `Must be a whole number between 0 and ${MAX_PAGE_RETRIES}.`;
+  }
+
+  if (!isIntegerInRange(raw.pageConcurrency, 1, MAX_PAGE_CONCURRENCY)) {
+    errors.pageConcurrency = `Must be a whole number between 1 and ${MAX_PAGE_CONCURRENCY}.`;
+  }
+  if (!isIntegerInRange(raw.rateLimitRetries, 0, MAX_RATE_LIMIT_RETRIES)) {
+    errors.rateLimitRetries = `Must be a whole number between 0 and ${MAX_RATE_LIMIT_RETRIES}.`;
+  }
+
+  const pricing = isPlainObject(raw.pricing) ? raw.pricing : null;
+  if (!pricing) {
+    errors.pricing = 'Price table must be an object.';
+  } else {
+    for (const [model, price] of Object.entries(pricing)) {
+      const fields = isPlainObject(price) ? price : {};
+      if (model.trim().length === 0) {
+        errors.pricing = 'Every price needs a model name.';
+      } else if (!(['inputPerMillion', 'outputPerMillion', 'perImage'] as const).every(key => isNonNegativeNumber(fields[key]))) {
+        errors[`pricing.${model}`] = 'Prices must be numbers of 0 or more.';
+      }
+    }
+  }
+  if (!isNonNegativeNumber(raw.monthlySpendingCap) || raw.monthlySpendingCap > MAX_SPENDING_CAP) {
+    errors.monthlySpendingCap = `Must be an amount between 0 and ${MAX_SPENDING_CAP} (0 for no cap).`;
+  }
+
+  const responseCache = isPlainObject(raw.responseCache) ? raw.responseCache : {};
+  for (const key of ['enabled', 'pageImages'] as const) {
+    if (typeof responseCache[key] !== 'boolean') {
+      errors[`responseCache.${key}`] = 'Must be true or false.';
+    }
+  }
+
+  if (!PAGE_RENDERERS.includes(raw.pageRenderer as PageRenderer)) {
+    errors.pageRenderer = `Must be one of ${PAGE_RENDERERS.join(', ')}.`;
+  }
+  const localRenderer = isPlainObject(raw.localRenderer) ? raw.localRenderer : {};
+  if (!HANDWRITING_FONTS.includes(localRenderer.font as HandwritingFont)) {
+    errors['localRenderer.font'] = `Must be one of ${HANDWRITING_FONTS.join(', ')}.`;
+  }
+  if (!isIntegerInRange(localRenderer.slant, -MAX_SLANT, MAX_SLANT)) {
+    errors['localRenderer.slant'] = `Must be a whole number of degrees between -${MAX_SLANT} and ${MAX_SLANT}.`;
+  }
+  if (!isIntegerInRange(localRenderer.jitter, 0, 100)) {
+    errors['localRenderer.jitter'] = 'Must be a whole number between 0 and 100.';
+  }
+  if (!isIntegerInRange(localRenderer.baselineWobble, 0, 100)) {
+    errors['localRenderer.baselineWobble'] = 'Must be a whole number between 0 and 100.';
+  }
+  if (typeof localRenderer.inkColor !== 'string' || !HEX_COLOR.test(localRenderer.inkColor)) {
+    errors['localRenderer.inkColor'] = 'Must be a hex colour like #1a2a6c.';
+  }
+  if (!PAPER_STYLES.includes(localRenderer.paper as PaperStyle)) {
+    errors['localRenderer.paper'] = `Must be one of ${PAPER_STYLES.join(', ')}.`;
+  }
+  if (!isIntegerInRange(localRenderer.lineSpacing, MIN_LINE_SPACING, MAX_LINE_SPACING)) {
+    errors['localRenderer.lineSpacing'] = `Must be a whole number between ${MIN_LINE_SPACING} and ${MAX_LINE_SPACING}.`;
+  }
+
+  const pdfExport = isPlainObject(raw.pdfExport) ? raw.pdfExport : {};
+  if (!PDF_PAGE_SIZES.includes(pdfExport.pageSize as PdfPageSize)) {
+    errors['pdfExport.pageSize'] = `Must be one of ${PDF_PAGE_SIZES.join(', ')}.`;
+  }
+  for (const key of ['customWidth', 'customHeight'] as const) {
+    if (!isIntegerInRange(pdfExport[key], MIN_PAGE_DIMENSION, MAX_PAGE_DIMENSION)) {
+      errors[`pdfExport.${key}`] = `Must be a whole number of mm between ${MIN_PAGE_DIMENSION} and ${MAX_PAGE_DIMENSION}.`;
+    }
+  }
+  if (!PDF_IMAGE_FITS.includes(pdfExport.fit as PdfImageFit)) {
+    errors['pdfExport.fit'] = `Must be one of ${PDF_IMAGE_FITS.join(', ')}.`;
+  }
+  if (!isIntegerInRange(pdfExport.margin, 0, MAX_PDF_MARGIN)) {
+    errors['pdfExport.margin'] = `Must be a whole number of mm between 0 and ${MAX_PDF_MARGIN}.`;
+  }
+  if (!PDF_IMAGE_FORMATS.includes(pdfExport.imageFormat as PdfImageFormat)) {
+    errors['pdfExport.imageFormat'] = `Must be one of ${PDF_IMAGE_FORMATS.join(', ')}.`;
+  }
+  if (!isIntegerInRange(pdfExport.jpegQuality, 10, 100)) {
+    errors['pdfExport.jpegQuality'] = 'Must be a whole number between 10 and 100.';
+  }
+  if (!isIntegerInRange(pdfExport.targetSizeKb, 0, 1_000_000)) {
+    errors['pdfExport.targetSizeKb'] = 'Must be a whole number of KB (0 for no target).';
+  }
+  if (typeof pdfExport.coverPage !== 'boolean') {
+    errors['pdfExport.coverPage'] = 'Must be true or false.';
+  }
+  if (typeof pdfExport.author !== 'string') {
+    errors['pdfExport.author'] = 'Must be text.';
+  }
+  if (typeof pdfExport.fileName !== 'string' || pdfExport.fileName.trim().length === 0) {
+    errors['pdfExport.fileName'] = 'File name is required.';
+  }
+
+  if (Object.keys(errors).length > 0) return { settings: null, errors };
+
+  const pdfSettings = pdfExport as unknown as PdfExportSettings;
+  const rendererSettings = localRenderer as unknown as LocalRendererSettings;
+
+  const modelSettings = models as AppSettings['models'];
+  const chainSettings = fallbacks as AppSettings['fallbacks'];
+  const toChain = (chain: FallbackChain): FallbackChain => ({
+    models: chain.models.map(model => model.trim()),
+    advanceOn: FALLBACK_ERROR_KINDS.filter(kind => chain.advanceOn.includes(kind)),
+  });
+  return {
+    settings: {
+      models: {
+        transcription: modelSettings.transcription.trim(),
+        solver: modelSettings.solver.trim(),
+        image: modelSettings.image.trim(),
+        validation: modelSettings.validation.trim(),
+        ocr: modelSettings.ocr.trim(),
+        chat: modelSettings.chat.trim(),
+      },
+      fallbacks: {
+        transcription: toChain(chainSettings.transcription),
+        solver: toChain(chainSettings.solver),
+        image: toChain(chainSettings.image),
+        validation: toChain(chainSettings.validation),
+        ocr: toChain(chainSettings.ocr),
+        chat: toChain(chainSettings.chat),
+      },
+      thinkingBudget: thinkingBudget as AppSettings['thinkingBudget'],
+      imageSize: raw.imageSize as ImageSize,
+      aspectRatio: raw.aspectRatio as AspectRatio,
+      maxAttempts: raw.maxAttempts as number,
+      linesPerPage: raw.linesPerPage as number,
+      fidelityThreshold: raw.fidelityThreshold as number,
+      maxPageRetries: raw.maxPageRetries as number,
+      pageConcurrency: raw.pageConcurrency as number,
+      rateLimitRetries: raw.rateLimitRetries as number,
+      pricing: Object.fromEntries(Object.entries(pricing as Record<string, ModelPrice>).map(([model, price]) => [model.trim(), {
+        inputPerMillion: price.inputPerMillion,
+        outputPerMillion: price.outputPerMillion,
+        perImage: price.perImage,
+      }])),
+      monthlySpendingCap: raw.monthlySpendingCap as number,
+      responseCache: {
+        enabled: responseCache.enabled as boolean,
+        pageImages: responseCache.pageImages as boolean,
+      },
+      pageRenderer: raw.pageRenderer as PageRenderer,
+      localRenderer: {
+        font: rendererSettings.font,
+        slant: rendererSettings.slant,
+        jitter: rendererSettings.jitter,
+        baselineWobble: rendererSettings.baselineWobble,
+        inkColor: rendererSettings.inkColor.toLowerCase(),
+        paper: rendererSettings.paper,
+        lineSpacing: rendererSettings.lineSpacing,
+      },
+      pdfExport: {
+        pageSize: pdfSettings.pageSize,
+        customWidth: pdfSettings.customWidth,
+        customHeight: pdfSettings.customHeight,
+        fit: pdfSettings.fit,
+        margin: pdfSettings.margin,
+        imageFormat: pdfSettings.imageFormat,
+        jpegQuality: pdfSettings.jpegQuality,
+        targetSizeKb: pdfSettings.targetSizeKb,
+        coverPage: pdfSettings.coverPage,
+        author: pdfSettings.author.trim(),
+        fileName: pdfSettings.fileName.trim().replace(/\.pdf$/i, ''),
+      },
+    },
+    errors,
+  };
+};
+
+/**
+ * Reads persisted settings. Anything missing or invalid falls back to the defaults.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored);
+    const { solverFallback, imageFallback, ...storedModels } = parsed?.models ?? {};
+    // Merge over defaults so settings saved by older versions gain new fields
+    const merged = {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      models: { ...DEFAULT_SETTINGS.models, ...storedModels },
+      fallbacks: {
+        ...DEFAULT_SETTINGS.fallbacks,
+        // Single fallback models from before the chains became their first link
+        ...(typeof solverFallback === 'string' ? { solver: { ...DEFAULT_SETTINGS.fallbacks.solver, models: [solverFallback] } } : {}),
+        ...(typeof imageFallback === 'string' ? { image: { ...DEFAULT_SETTINGS.fallbacks.image, models: [imageFallback] } } : {}),
+        ...parsed?.fallbacks,
+      },
+      thinkingBudget: { ...DEFAULT_SETTINGS.thinkingBudget, ...parsed?.thinkingBudget },
+      responseCache: { ...DEFAULT_SETTINGS.responseCache, ...parsed?.responseCache },
+      localRenderer: { ...DEFAULT_SETTINGS.localRenderer, ...parsed?.localRenderer },
+      pdfExport: { ...DEFAULT_SETTINGS.pdfExport, ...parsed?.pdfExport },
+    };
+    const { settings, errors } = validateSettings(merged);
+    if (!settings) {
+      console.warn("Stored settings are invalid, using defaults", errors);
+      return DEFAULT_SETTINGS;
+    }
+    return settings;
+  } catch (e) {
+    console.warn("Failed to read settings, using defaults", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const resetSettings = (): AppSettings => {
+  localStorage.removeItem(STORAGE_KEY);
+  return DEFAULT_SETTINGS;
+};
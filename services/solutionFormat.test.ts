@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { StructuredSolution } from '../types';
+import { rulesNeeded } from './handwritingRenderer';
+import { paginateSolution } from './solutionFormat';
+
+const LINE_SPACING = 160;
+const rules = (lines: string[]) => rulesNeeded(lines.join('\n'), LINE_SPACING);
+
+const fractionSolution: StructuredSolution = {
+  restatement: 'Add the fractions.',
+  steps: Array.from({ length: 6 }, (_, i) => ({
+    explanation: `Combine term ${i + 1}`,
+    expression: `\\frac{${i + 1}}{${i + 2}} + \\frac{1}{2} = \\frac{${i + 4}}{${2 * i + 4}}`,
+  })),
+  finalAnswer: 'x = 1',
+};
+
+describe('rulesNeeded', () => {
+  it('counts one rule per plain line and more for stacked fractions', () => {
+    expect(rulesNeeded('x + 1 = 2\nx = 1', LINE_SPACING)).toBe(2);
+    expect(rulesNeeded('\\frac{1}{2}\n\\frac{3}{4}', LINE_SPACING)).toBeGreaterThan(2);
+  });
+});
+
+describe('paginateSolution', () => {
+  it('keeps a page of fraction lines within the rules the renderer has', () => {
+    const linesPerPage = 8;
+    // The renderer draws linesPerPage + 1 rules
+    const capacity = linesPerPage + 1;
+    const byTextLines = paginateSolution(fractionSolution, linesPerPage);
+    expect(byTextLines.some(page => rules(page.split('\n')) > capacity)).toBe(true);
+
+    const byRules = paginateSolution(fractionSolution, linesPerPage, rules);
+    expect(byRules.every(page => rules(page.split('\n')) <= linesPerPage)).toBe(true);
+    expect(byRules.join('\n')).toBe(byTextLines.join('\n'));
+  });
+
+  it('counts one rule per text line by default', () => {
+    const solution: StructuredSolution = {
+      restatement: 'Solve x + 1 = 2.',
+      steps: [{ explanation: 'Subtract 1', expression: 'x = 1' }],
+      finalAnswer: 'x = 1',
+    };
+    expect(paginateSolution(solution, 4)).toEqual(['Given: Solve x + 1 = 2.\nStep 1: Subtract 1\nx = 1\nAnswer: x = 1']);
+  });
+});
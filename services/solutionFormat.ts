@@ -0,0 +1,143 @@
+import { SolutionStep, StructuredSolution } from "../types";
+
+// Rough width of one handwritten line on a portrait page
+export const CHARS_PER_LINE = 60;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Checks a parsed model response against the solution schema.
+ * Throws with the offending field path rather than guessing at a repair.
+ */
+export const validateStructuredSolution = (raw: unknown): StructuredSolution => {
+  if (!isPlainObject(raw)) {
+    throw new Error("Malformed solution: expected a JSON object.");
+  }
+  if (!isNonEmptyString(raw.restatement)) {
+    throw new Error("Malformed solution: restatement must be a non-empty string.");
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw new Error("Malformed solution: steps must be a non-empty array.");
+  }
+  const steps: SolutionStep[] = raw.steps.map((step, i) => {
+    if (!isPlainObject(step) || !isNonEmptyString(step.explanation)) {
+      throw new Error(`Malformed solution: steps[${i}].explanation must be a non-empty string.`);
+    }
+    if (step.expression !== undefined && step.expression !== null && typeof step.expression !== 'string') {
+      throw new Error(`Malformed solution: steps[${i}].expression must be a string.`);
+    }
+    return isNonEmptyString(step.expression)
+      ? { explanation: step.explanation.trim(), expression: step.expression.trim() }
+      : { explanation: step.explanation.trim() };
+  });
+  if (!isNonEmptyString(raw.finalAnswer)) {
+    throw new Error("Malformed solution: finalAnswer must be a non-empty string.");
+  }
+  if (raw.diagramHints !== undefined && raw.diagramHints !== null
+    && (!Array.isArray(raw.diagramHints) || !raw.diagramHints.every(hint => typeof hint === 'string'))) {
+    throw new Error("Malformed solution: diagramHints must be an array of strings.");
+  }
+  const diagramHints = ((raw.diagramHints as string[] | undefined) ?? []).map(hint => hint.trim()).filter(Boolean);
+
+  return {
+    restatement: raw.restatement.trim(),
+    steps,
+    finalAnswer: raw.finalAnswer.trim(),
+    ...(diagramHints.length > 0 ? { diagramHints } : {}),
+  };
+};
+
+/**
+ * Parses the raw JSON text of a solve response (tolerating a ```json fence) and validates it.
+ */
+export const parseStructuredSolution = (text: string): StructuredSolution => {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    throw new Error("Malformed solution: response is not valid JSON.");
+  }
+  return validateStructuredSolution(parsed);
+};
+
+/**
+ * Greedy word wrap; explicit newlines are kept. Words longer than a line are left intact.
+ */
+export const wrapText = (text: string, width = CHARS_PER_LINE): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (current && current.length + 1 + word.length > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  });
+
+/**
+ * The solution as blocks of lines that belong together on a page:
+ * the restatement, any sketches, one block per step, then the answer.
+ */
+export const solutionToBlocks = (solution: StructuredSolution, width = CHARS_PER_LINE): string[][] => [
+  wrapText(`Given: ${solution.restatement}`, width),
+  ...(solution.diagramHints ?? []).map(hint => wrapText(`Sketch: ${hint}`, width)),
+  ...solution.steps.map((step, i) => [
+    ...wrapText(`Step ${i + 1}: ${step.explanation}`, width),
+    ...(step.expression ? wrapText(step.expression, width) : []),
+  ]),
+  wrapText(`Answer: ${solution.finalAnswer}`, width),
+];
+
+/**
+ * Packs the solution into pages of at most `linesPerPage` lines. A block moves to the
+ * next page whole if it doesn't fit; only blocks taller than a page are split.
+ * `rulesFor` says how many lines a page's text takes; by default one per text line, but
+ * the renderer's count makes tall lines such as stacked fractions take their real room.
+ * Same input, same pages.
+ */
+export const paginateSolution = (
+  solution: StructuredSolution,
+  linesPerPage: number,
+  rulesFor: (lines: string[]) => number = lines => lines.length,
+  width = CHARS_PER_LINE
+): string[] => {
+  const budget = Math.max(1, Math.floor(linesPerPage));
+  const pages: string[][] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) pages.push(current);
+    current = [];
+  };
+  const fits = (lines: string[]) => rulesFor(lines) <= budget;
+
+  for (const block of solutionToBlocks(solution, width)) {
+    if (fits([...current, ...block])) {
+      current.push(...block);
+      continue;
+    }
+    if (fits(block)) {
+      flush();
+      current.push(...block);
+      continue;
+    }
+    // Oversized block: fill the current page, then carry on across as many pages as needed
+    for (const line of block) {
+      if (current.length > 0 && !fits([...current, line])) flush();
+      current.push(line);
+    }
+  }
+  flush();
+
+  return pages.map(lines => lines.join('\n'));
+};
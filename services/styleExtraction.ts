@@ -0,0 +1,193 @@
+import { PaperStyle, StyleAttributes } from "../types";
+import { DEFAULT_SETTINGS, MAX_LINE_SPACING, MAX_SLANT, MIN_LINE_SPACING } from "./settingsService";
+
+// Samples are measured at this width; enough detail for strokes, cheap enough to scan repeatedly
+const ANALYSIS_WIDTH = 600;
+
+// A ruling has to cross most of the sample to count as printed, not written
+const RULE_COVERAGE = 0.6;
+
+const SLANT_STEP = 2;
+
+interface Pixels {
+  width: number;
+  height: number;
+  luminance: Float32Array;
+  rgb: Uint8ClampedArray;
+}
+
+const readPixels = (source: HTMLCanvasElement): Pixels => {
+  const scale = Math.min(1, ANALYSIS_WIDTH / source.width);
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(source, 0, 0, width, height);
+  const rgb = ctx.getImageData(0, 0, width, height).data;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * rgb[i * 4] + 0.587 * rgb[i * 4 + 1] + 0.114 * rgb[i * 4 + 2];
+  }
+  return { width, height, luminance, rgb };
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Paper brightness, taken as the median of a sparse sample. */
+const backgroundLevel = ({ luminance }: Pixels): number => {
+  const sample: number[] = [];
+  for (let i = 0; i < luminance.length; i += 7) sample.push(luminance[i]);
+  return median(sample);
+};
+
+/** Centres of consecutive index runs, e.g. the rows a ruled line covers. */
+const runCentres = (indices: number[]): number[] => {
+  const centres: number[] = [];
+  let start = -1;
+  indices.forEach((index, i) => {
+    if (start < 0) start = index;
+    if (indices[i + 1] !== index + 1) {
+      centres.push((start + index) / 2);
+      start = -1;
+    }
+  });
+  return centres;
+};
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+/**
+ * Finds printed rulings: rows (or columns) where faint marks cover most of the sample.
+ * Ink is excluded so a long written line isn't mistaken for a rule.
+ */
+const findRules = (pixels: Pixels, isInk: Uint8Array, background: number, axis: 'rows' | 'columns'): number[] => {
+  const { width, height, luminance } = pixels;
+  const [outer, inner] = axis === 'rows' ? [height, width] : [width, height];
+  const hits: number[] = [];
+  for (let a = 0; a < outer; a++) {
+    let marked = 0;
+    for (let b = 0; b < inner; b++) {
+      const index = axis === 'rows' ? a * width + b : b * width + a;
+      if (!isInk[index] && luminance[index] < background - 20) marked++;
+    }
+    if (marked / inner >= RULE_COVERAGE) hits.push(a);
+  }
+  return runCentres(hits);
+};
+
+/**
+ * Shear angle that lines strokes up best: at the true slant, vertical strokes collapse into
+ * narrow columns, so the column histogram of ink is most peaked.
+ */
+const estimateSlant = ({ width, height }: Pixels, isInk: Uint8Array): number => {
+  let best = 0;
+  let bestScore = -1;
+  for (let degrees = -MAX_SLANT; degrees <= MAX_SLANT; degrees += SLANT_STEP) {
+    const shear = Math.tan((degrees * Math.PI) / 180);
+    const offset = Math.ceil(Math.abs(shear) * height);
+    const columns = new Float64Array(width + offset * 2);
+    for (let y = 0; y < height; y++) {
+      const shift = Math.round(y * shear) + offset;
+      for (let x = 0; x < width; x++) {
+        if (isInk[y * width + x]) columns[x + shift]++;
+      }
+    }
+    let score = 0;
+    for (const count of columns) score += count * count;
+    if (score > bestScore) {
+      bestScore = score;
+      best = degrees;
+    }
+  }
+  return best;
+};
+
+/**
+ * Baseline distance over letter height, from rulings when there are any and from the
+ * spacing of written lines otherwise.
+ */
+const estimateLineSpacing = ({ width, height }: Pixels, isInk: Uint8Array, rules: number[]): number | null => {
+  const inkRows: number[] = [];
+  for (let y = 0; y < height; y++) {
+    let count = 0;
+    for (let x = 0; x < width; x++) count += isInk[y * width + x];
+    if (count >= 2) inkRows.push(y);
+  }
+  const bands: { start: number; end: number }[] = [];
+  inkRows.forEach((row, i) => {
+    if (i === 0 || row - inkRows[i - 1] > 2) bands.push({ start: row, end: row });
+    else bands[bands.length - 1].end = row;
+  });
+  const letterHeight = median(bands.map(band => band.end - band.start + 1).filter(h => h >= 4));
+  if (letterHeight === 0) return null;
+
+  const gaps = rules.length >= 2
+    ? rules.slice(1).map((rule, i) => rule - rules[i])
+    : bands.slice(1).map((band, i) => band.start - bands[i].start);
+  const spacing = median(gaps.filter(gap => gap > letterHeight));
+  return spacing > 0 ? (spacing / letterHeight) * 100 : null;
+};
+
+const measureSample = (canvas: HTMLCanvasElement) => {
+  const pixels = readPixels(canvas);
+  const background = backgroundLevel(pixels);
+  const isInk = new Uint8Array(pixels.luminance.length);
+  let red = 0, green = 0, blue = 0, inkCount = 0;
+  pixels.luminance.forEach((value, i) => {
+    if (value >= background - 80) return;
+    isInk[i] = 1;
+    red += pixels.rgb[i * 4];
+    green += pixels.rgb[i * 4 + 1];
+    blue += pixels.rgb[i * 4 + 2];
+    inkCount++;
+  });
+
+  const rows = findRules(pixels, isInk, background, 'rows');
+  const columns = findRules(pixels, isInk, background, 'columns');
+  const paper: PaperStyle = rows.length >= 3 && columns.length >= 3 ? 'grid' : rows.length >= 3 ? 'ruled' : 'blank';
+
+  return {
+    inkColor: inkCount > 0 ? [red, green, blue].map(sum => sum / inkCount) : null,
+    slant: inkCount > 0 ? estimateSlant(pixels, isInk) : null,
+    paper,
+    lineSpacing: estimateLineSpacing(pixels, isInk, rows),
+  };
+};
+
+/**
+ * Reads ink colour, slant, paper type and line spacing from one or more samples.
+ * Colours are averaged, numbers take the median and the paper type the majority;
+ * anything that can't be measured keeps the renderer default.
+ */
+export const extractStyleAttributes = (samples: HTMLCanvasElement[]): StyleAttributes => {
+  const defaults = DEFAULT_SETTINGS.localRenderer;
+  const measured = samples.map(measureSample);
+
+  const colours = measured.flatMap(m => (m.inkColor ? [m.inkColor] : []));
+  const inkColor = colours.length > 0
+    ? `#${[0, 1, 2].map(channel => toHex(colours.reduce((sum, c) => sum + c[channel], 0) / colours.length)).join('')}`
+    : defaults.inkColor;
+
+  const slants = measured.flatMap(m => (m.slant === null ? [] : [m.slant]));
+  const spacings = measured.flatMap(m => (m.lineSpacing === null ? [] : [m.lineSpacing]));
+
+  const paperVotes = new Map<PaperStyle, number>();
+  measured.forEach(m => paperVotes.set(m.paper, (paperVotes.get(m.paper) ?? 0) + 1));
+  const paper = [...paperVotes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? defaults.paper;
+
+  return {
+    inkColor,
+    slant: slants.length > 0 ? median(slants) : defaults.slant,
+    paper,
+    lineSpacing: spacings.length > 0
+      ? Math.round(Math.min(MAX_LINE_SPACING, Math.max(MIN_LINE_SPACING, median(spacings))))
+      : defaults.lineSpacing,
+  };
+};
@@ -0,0 +1,174 @@
+import { AppSettings, PaperStyle, StoredFile, StyleAttributes, StyleProfile } from "../types";
+import { PROFILES_STORE, withStore } from "./localDb";
+import { createRunId } from "./historyService";
+import { canvasToFile, imageFileToCanvas } from "./pdfImportService";
+import { HEX_COLOR, MAX_LINE_SPACING, MAX_SLANT, MIN_LINE_SPACING, PAPER_STYLES } from "./settingsService";
+
+const FILE_FORMAT = 'mathmimic.style-profiles';
+const FILE_VERSION = 1;
+
+// Width of the combined reference image handed to the image model
+const SHEET_WIDTH = 1024;
+const SHEET_GAP = 24;
+
+export const TEST_SENTENCE = 'Step 1: Solve 3x + 5 = 20, so x = 5.';
+
+/**
+ * All profiles, most recently edited first.
+ */
+export const listProfiles = async (): Promise<StyleProfile[]> => {
+  const profiles = await withStore(PROFILES_STORE, 'readonly', store => store.getAll() as IDBRequest<StyleProfile[]>);
+  return profiles.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Inserts or replaces a profile.
+ */
+export const saveProfile = async (profile: StyleProfile): Promise<void> => {
+  await withStore(PROFILES_STORE, 'readwrite', store => store.put(profile));
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  await withStore(PROFILES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const createProfile = (name: string, samples: StoredFile[], attributes: StyleAttributes): StyleProfile => {
+  const now = Date.now();
+  return { id: createRunId(), name, createdAt: now, updatedAt: now, samples, attributes };
+};
+
+/**
+ * Settings with the profile's look applied to the local renderer.
+ */
+export const applyStyleProfile = (settings: AppSettings, profile: StyleProfile | null): AppSettings =>
+  profile ? { ...settings, localRenderer: { ...settings.localRenderer, ...profile.attributes } } : settings;
+
+/**
+ * Stacks every sample into one image, so the image model sees the whole hand as a single reference.
+ */
+export const buildReferenceSheet = async (profile: StyleProfile): Promise<File> => {
+  const canvases = await Promise.all(profile.samples.map(sample => imageFileToCanvas(sample.data)));
+  if (canvases.length === 0) throw new Error(`Profile "${profile.name}" has no samples.`);
+
+  const scaled = canvases.map(canvas => {
+    const scale = Math.min(1, SHEET_WIDTH / canvas.width);
+    return { canvas, width: Math.round(canvas.width * scale), height: Math.round(canvas.height * scale) };
+  });
+  const sheet = document.createElement('canvas');
+  sheet.width = SHEET_WIDTH;
+  sheet.height = scaled.reduce((sum, s) => sum + s.height, 0) + SHEET_GAP * (scaled.length - 1);
+  const ctx = sheet.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, sheet.width, sheet.height);
+
+  let y = 0;
+  for (const { canvas, width, height } of scaled) {
+    ctx.drawImage(canvas, 0, y, width, height);
+    y += height + SHEET_GAP;
+  }
+  const safeName = profile.name.replace(/[^\w-]+/g, '_') || 'profile';
+  return canvasToFile(sheet, `${safeName}_reference.png`);
+};
+
+interface SerializedSample {
+  name: string;
+  type: string;
+  dataUrl: string;
+}
+
+type SerializedProfile = Omit<StyleProfile, 'samples'> & { samples: SerializedSample[] };
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Packs profiles (samples included, as data URLs) into a JSON file a teammate can import.
+ */
+export const exportProfiles = async (profiles: StyleProfile[]): Promise<Blob> => {
+  const serialized: SerializedProfile[] = await Promise.all(profiles.map(async profile => ({
+    ...profile,
+    samples: await Promise.all(profile.samples.map(async sample => ({
+      name: sample.name,
+      type: sample.type,
+      dataUrl: await blobToDataUrl(sample.data),
+    }))),
+  })));
+  const payload = { format: FILE_FORMAT, version: FILE_VERSION, profiles: serialized };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const parseAttributes = (raw: unknown, label: string): StyleAttributes => {
+  if (!isPlainObject(raw)) throw new Error(`${label}: attributes are missing.`);
+  if (typeof raw.inkColor !== 'string' || !HEX_COLOR.test(raw.inkColor)) {
+    throw new Error(`${label}: inkColor must be a hex colour.`);
+  }
+  if (!isInRange(raw.slant, -MAX_SLANT, MAX_SLANT)) {
+    throw new Error(`${label}: slant must be between -${MAX_SLANT} and ${MAX_SLANT}.`);
+  }
+  if (!PAPER_STYLES.includes(raw.paper as PaperStyle)) {
+    throw new Error(`${label}: paper must be one of ${PAPER_STYLES.join(', ')}.`);
+  }
+  if (!isInRange(raw.lineSpacing, MIN_LINE_SPACING, MAX_LINE_SPACING)) {
+    throw new Error(`${label}: lineSpacing must be between ${MIN_LINE_SPACING} and ${MAX_LINE_SPACING}.`);
+  }
+  return { inkColor: raw.inkColor.toLowerCase(), slant: raw.slant, paper: raw.paper as PaperStyle, lineSpacing: raw.lineSpacing };
+};
+
+const parseSample = async (raw: unknown, label: string): Promise<StoredFile> => {
+  if (!isPlainObject(raw) || typeof raw.name !== 'string' || typeof raw.dataUrl !== 'string'
+    || !raw.dataUrl.startsWith('data:image/')) {
+    throw new Error(`${label}: every sample needs a name and an image data URL.`);
+  }
+  const data = await (await fetch(raw.dataUrl)).blob();
+  return { name: raw.name, type: typeof raw.type === 'string' ? raw.type : data.type, data };
+};
+
+/**
+ * Reads a file written by `exportProfiles`. Throws naming the first bad field rather than
+ * importing half a file. Imported profiles keep their ids, so re-importing updates them.
+ */
+export const importProfiles = async (file: File): Promise<StyleProfile[]> => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON.`);
+  }
+  if (!isPlainObject(payload) || payload.format !== FILE_FORMAT || !Array.isArray(payload.profiles)) {
+    throw new Error(`${file.name} is not a style profile file.`);
+  }
+  if (payload.version !== FILE_VERSION) {
+    throw new Error(`${file.name} uses profile file version ${String(payload.version)}; expected ${FILE_VERSION}.`);
+  }
+
+  return Promise.all(payload.profiles.map(async (raw, i): Promise<StyleProfile> => {
+    const label = `Profile ${i + 1}`;
+    if (!isPlainObject(raw) || typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new Error(`${label}: name is required.`);
+    }
+    if (!Array.isArray(raw.samples) || raw.samples.length === 0) {
+      throw new Error(`${label}: at least one sample is required.`);
+    }
+    const now = Date.now();
+    return {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : createRunId(),
+      name: raw.name.trim(),
+      createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : now,
+      updatedAt: now,
+      samples: await Promise.all(raw.samples.map(sample => parseSample(sample, label))),
+      attributes: parseAttributes(raw.attributes, label),
+    };
+  }));
+};
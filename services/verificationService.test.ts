@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { StructuredSolution } from '../types';
+import { verifySolution } from './verificationService';
+
+const solution = (finalAnswer: string, expressions: string[] = [], restatement = ''): StructuredSolution => ({
+  restatement,
+  steps: expressions.map((expression, i) => ({ explanation: `Step ${i + 1}`, expression })),
+  finalAnswer,
+});
+
+describe('verifySolution', () => {
+  it('accepts roots rounded to the precision they are written to', () => {
+    const report = verifySolution('x^2 = 2', solution('x = 1.414, x = -1.414', ['x = ±√2', '√2 = 1.414']));
+    expect(report.finalAnswer.status).toBe('verified');
+    expect(report.steps.some(step => step.status === 'suspicious')).toBe(false);
+    expect(report.confidence).not.toBe('low');
+  });
+
+  it('still rejects a rounded answer that is off by more than its precision', () => {
+    const report = verifySolution('x^2 = 2', solution('x = 1.5, x = -1.5'));
+    expect(report.finalAnswer.status).toBe('suspicious');
+    expect(report.confidence).toBe('low');
+  });
+
+  it('reads commas that group thousands as part of the number', () => {
+    const report = verifySolution('What is 1,000 + 2,000?', solution('x = 3,000', ['1,000 + 2,000 = 3,000']));
+    expect(report.steps[0].status).toBe('verified');
+  });
+
+  it('still splits values listed with commas', () => {
+    const report = verifySolution('x^2 - 4x + 3 = 0', solution('x = 1, 3', ['(x - 1)(x - 3) = 0, x = 1, x = 3']));
+    expect(report.finalAnswer.status).toBe('verified');
+    expect(report.steps[0].status).toBe('verified');
+  });
+
+  it('reads past an instruction at the start of the problem', () => {
+    const report = verifySolution('Solve 3x + 4 = 10', solution('x = 2'));
+    expect(report.finalAnswer.status).toBe('verified');
+    expect(report.finalAnswer.detail).toBe('every value satisfies the original equation');
+  });
+
+  it('leaves a step with a side it cannot evaluate unchecked instead of failing it', () => {
+    const report = verifySolution('x^2 - 4 = 0', solution('x = 2, x = -2', ['f(x) = (x - 2)(x + 2)']));
+    expect(report.steps[0].status).toBe('unchecked');
+    expect(report.finalAnswer.status).toBe('verified');
+    expect(report.confidence).toBe('high');
+  });
+
+  it('reads ± in the answer as both roots', () => {
+    const report = verifySolution('x^2 = 4', solution('x = ±2'));
+    expect(report.finalAnswer.status).toBe('verified');
+    expect(verifySolution('x^2 = 4', solution('x = ±3')).finalAnswer.status).toBe('suspicious');
+    expect(verifySolution('x^2 - 2x - 1 = 0', solution('x = 1 ± √2')).finalAnswer.status).toBe('verified');
+  });
+});
@@ -0,0 +1,330 @@
+import { derivative, MathNode, parse } from "mathjs";
+import { StepCheck, StructuredSolution, VerificationConfidence, VerificationReport } from "../types";
+
+type Assignment = Record<string, number>;
+
+/** Candidate values from the final answer. */
+interface Answer {
+  values: Assignment;
+  /** Half a unit in the last written decimal place of each value; 0 when it is written exactly. */
+  precision: Assignment;
+}
+
+// Fixed sample points keep the verdict deterministic for the same solution
+const SAMPLE_POINTS = [0.37, 1.61, 2.3, -1.7, 3.14];
+
+const RELATIVE_TOLERANCE = 1e-6;
+
+const approxEqual = (a: number, b: number) =>
+  Math.abs(a - b) <= RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+
+/**
+ * How far a value written as a decimal may be from the one it rounds: 1.414 → 0.0005.
+ * 0 for whole numbers and expressions, which are taken as exact.
+ */
+const roundingOf = (text: string): number => {
+  const decimals = /^\s*[-−]?\d*\.(\d+)\s*$/.exec(text)?.[1];
+  return decimals ? 0.5 * 10 ** -decimals.length : 0;
+};
+
+/**
+ * Rewrites the plain-text math the solver produces into something mathjs parses.
+ */
+const normalizeMath = (text: string): string =>
+  text
+    .replace(/[×·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–]/g, '-')
+    .replace(/√\s*\(/g, 'sqrt(')
+    .replace(/√\s*([\w.]+)/g, 'sqrt($1)')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/π/g, 'pi')
+    .replace(/\\cdot|\\times/g, '*')
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1')
+    .replace(/[.;]\s*$/, '')
+    .trim();
+
+// "Solve 3x + 4 = 10": the instruction isn't part of the left side
+const INSTRUCTION = /^\s*(?:solve|simplify|evaluate|compute|calculate|find|factori[sz]e|factor|expand|verify|check|show that|prove that|given)\b(?:\s+for\s+[a-z]\b)?[:\s]*/i;
+
+/** Parses an expression, or returns null for anything that isn't plain algebra. */
+const tryParse = (text: string): MathNode | null => {
+  const normalized = normalizeMath(text.replace(INSTRUCTION, ''));
+  if (!normalized || /[a-z]{4,}/i.test(normalized.replace(/\b(sqrt|sin|cos|tan|log|exp|abs|pi)\b/g, ''))) {
+    // Words left over mean prose, not math
+    return null;
+  }
+  try {
+    return parse(normalized);
+  } catch {
+    return null;
+  }
+};
+
+/** Free variables of an expression (single letters and names that aren't known functions/constants). */
+const variablesOf = (node: MathNode): string[] => {
+  const names = new Set<string>();
+  node.traverse((child, _path, parent) => {
+    if (child.type !== 'SymbolNode') return;
+    const name = (child as MathNode & { name: string }).name;
+    // Function names are SymbolNodes too, as the callee of a FunctionNode
+    if (parent?.type === 'FunctionNode' && (parent as MathNode & { fn: MathNode }).fn === child) return;
+    if (['pi', 'e', 'i', 'Infinity'].includes(name)) return;
+    names.add(name);
+  });
+  return [...names];
+};
+
+const evaluateAt = (node: MathNode, scope: Assignment): number | null => {
+  try {
+    const value = node.evaluate({ ...scope });
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+interface Equality {
+  left: MathNode;
+  right: MathNode;
+  source: string;
+  /** Rounding allowed between the sides when one is a plain decimal, as in "√2 = 1.414". */
+  rounding: number;
+}
+
+/**
+ * Pulls every "a = b" (including chains "a = b = c") out of a block of text.
+ * Lines are split on implications, commas between values and "or" so "x - 1 = 0 => x = 1" gives two equalities.
+ */
+const extractEqualities = (text: string): Equality[] => {
+  const segments = text
+    // A comma splits unless it groups thousands, as in 1,000
+    .split(/\n|=>|⇒|→|->|;|(?<!\d),|,(?!\d{3}(?!\d))|\bor\b|\band\b/)
+    // "Check x = 1: 2(1) - 8 + 6 = 0" — the math is after the colon
+    .map(segment => segment.slice(segment.lastIndexOf(':') + 1).trim())
+    .filter(segment => segment.includes('=') && !/[<>!]=|==/.test(segment));
+
+  const equalities: Equality[] = [];
+  for (const segment of segments) {
+    const sides = segment.split('=').map(side => side.trim());
+    const nodes = sides.map(tryParse);
+    for (let i = 0; i < nodes.length - 1; i++) {
+      const left = nodes[i];
+      const right = nodes[i + 1];
+      if (left && right) {
+        const rounding = Math.max(roundingOf(sides[i]), roundingOf(sides[i + 1]));
+        equalities.push({ left, right, source: `${sides[i]} = ${sides[i + 1]}`, rounding });
+      }
+    }
+  }
+  return equalities;
+};
+
+/**
+ * Reads "x = 1 or x = 3" / "x = 1, 3" / "x = ±2" / "x = 2, y = -1" / "x ≈ 1.414" into candidate answers.
+ * Repeated variables mean alternatives (roots); distinct ones mean a single solution of a system.
+ */
+export const parseAnswerAssignments = (finalAnswer: string): Answer[] => {
+  const pairs: [string, number, number][] = [];
+  let lastVariable: string | null = null;
+  for (const part of finalAnswer.replace(/≈/g, '=').split(/(?<!\d),|,(?!\d{3}(?!\d))|;|\bor\b|\band\b/)) {
+    const [lhs, rhs] = part.includes('=') ? part.split('=').slice(-2) : [null, part];
+    const variable: string | null = lhs ? lhs.trim() : lastVariable;
+    if (!variable || !/^[a-z]\w*$/i.test(variable)) continue;
+    // "±2" is the two roots 2 and -2
+    const written = rhs ?? '';
+    const alternatives = written.includes('±') ? [written.replace(/±/g, '+'), written.replace(/±/g, '-')] : [written];
+    for (const alternative of alternatives) {
+      const node = tryParse(alternative);
+      const value = node && variablesOf(node).length === 0 ? evaluateAt(node, {}) : null;
+      if (value === null) continue;
+      pairs.push([variable, value, roundingOf(alternative)]);
+      lastVariable = variable;
+    }
+  }
+  if (pairs.length === 0) return [];
+
+  const distinct = new Set(pairs.map(([name]) => name));
+  if (distinct.size === pairs.length) {
+    return [{
+      values: Object.fromEntries(pairs.map(([name, value]) => [name, value])),
+      precision: Object.fromEntries(pairs.map(([name, , precision]) => [name, precision])),
+    }];
+  }
+  return pairs.map(([name, value, precision]) => ({ values: { [name]: value }, precision: { [name]: precision } }));
+};
+
+/**
+ * Does the answer satisfy `left = right`? A rounded answer only has to, to the precision it
+ * was written to: the mismatch may be as large as moving each value within its rounding
+ * interval can make it, so "x = 1.414" passes for x² = 2 but "x = 1.5" does not.
+ * Null when a side can't be evaluated, as with "f(x) = (x - 2)(x + 2)".
+ */
+const satisfies = (left: MathNode, right: MathNode, { values, precision }: Answer): boolean | null => {
+  const residual = (scope: Assignment) => {
+    const a = evaluateAt(left, scope);
+    const b = evaluateAt(right, scope);
+    return a === null || b === null ? null : a - b;
+  };
+  const a = evaluateAt(left, values);
+  const b = evaluateAt(right, values);
+  if (a === null || b === null) return null;
+  if (approxEqual(a, b)) return true;
+
+  const mismatch = a - b;
+  let allowed = 0;
+  for (const [name, rounding] of Object.entries(precision)) {
+    if (!(rounding > 0)) continue;
+    const shifts = [-rounding, rounding]
+      .map(offset => residual({ ...values, [name]: values[name] + offset }))
+      .filter((shifted): shifted is number => shifted !== null)
+      .map(shifted => Math.abs(shifted - mismatch));
+    allowed += Math.max(0, ...shifts);
+  }
+  return Math.abs(mismatch) <= allowed;
+};
+
+type EqualityVerdict = 'holds' | 'fails' | 'unknown';
+
+/**
+ * Does `left = right` hold? Without variables it is plain arithmetic. With variables it
+ * holds as an identity if it matches at every sample point, or as an equation if one of
+ * the candidate answers satisfies it.
+ */
+const checkEquality = ({ left, right, rounding }: Equality, answers: Answer[]): { verdict: EqualityVerdict; how: string } => {
+  const variables = [...new Set([...variablesOf(left), ...variablesOf(right)])];
+
+  if (variables.length === 0) {
+    const a = evaluateAt(left, {});
+    const b = evaluateAt(right, {});
+    if (a === null || b === null) return { verdict: 'unknown', how: 'could not evaluate' };
+    return approxEqual(a, b) || Math.abs(a - b) <= rounding
+      ? { verdict: 'holds', how: 'arithmetic checks out' }
+      : { verdict: 'fails', how: `left side is ${+a.toPrecision(6)}, right side is ${+b.toPrecision(6)}` };
+  }
+
+  const isIdentity = SAMPLE_POINTS.every((point, i) => {
+    // Offset per variable so x and y don't get the same value
+    const scope = Object.fromEntries(variables.map((name, j) => [name, j === 0 ? point : SAMPLE_POINTS[(i + j) % SAMPLE_POINTS.length]]));
+    const a = evaluateAt(left, scope);
+    const b = evaluateAt(right, scope);
+    return a !== null && b !== null && approxEqual(a, b);
+  });
+  if (isIdentity) return { verdict: 'holds', how: 'both sides agree at sample points' };
+
+  const applicable = answers.filter(answer => variables.every(name => name in answer.values));
+  if (applicable.length === 0) return { verdict: 'unknown', how: 'involves values the answer does not fix' };
+
+  const results = applicable.map(answer => satisfies(left, right, answer));
+  if (results.includes(true)) return { verdict: 'holds', how: 'consistent with the final answer' };
+  // A side that can't be evaluated says nothing about the answer either way
+  if (results.includes(null)) return { verdict: 'unknown', how: 'could not evaluate' };
+  return { verdict: 'fails', how: 'no value in the final answer satisfies it' };
+};
+
+const DERIVATIVE_PROBLEM = /derivative|differentiate|d\/dx/i;
+
+/**
+ * For "find the derivative of f(x) = ..." problems: compares the answer against the
+ * symbolic derivative of the original function at sample points.
+ */
+const checkDerivativeAnswer = (problemText: string, finalAnswer: string): { verdict: EqualityVerdict; how: string } | null => {
+  if (!DERIVATIVE_PROBLEM.test(problemText)) return null;
+  const source = problemText.match(/=\s*([^\n]+)$/m)?.[1] ?? problemText.match(/\bof\s+([^\n]+)$/im)?.[1];
+  const answerSource = finalAnswer.split('=').pop();
+  const original = source ? tryParse(source) : null;
+  const answer = answerSource ? tryParse(answerSource) : null;
+  if (!original || !answer) return null;
+
+  let expected: MathNode;
+  try {
+    expected = derivative(original, 'x');
+  } catch {
+    return null;
+  }
+  const matches = SAMPLE_POINTS.every(x => {
+    const a = evaluateAt(expected, { x });
+    const b = evaluateAt(answer, { x });
+    return a !== null && b !== null && approxEqual(a, b);
+  });
+  return matches
+    ? { verdict: 'holds', how: `matches d/dx computed locally (${expected.toString()})` }
+    : { verdict: 'fails', how: `expected ${expected.toString()}` };
+};
+
+/**
+ * Checks the answer against the problem's own equations (substituting roots back in).
+ */
+const checkFinalAnswer = (problemText: string, solution: StructuredSolution, answers: Answer[]) => {
+  const derivativeCheck = checkDerivativeAnswer(problemText, solution.finalAnswer);
+  if (derivativeCheck) return derivativeCheck;
+
+  if (answers.length === 0) return { verdict: 'unknown' as const, how: 'answer is not a list of values' };
+
+  const answerVariables = new Set(answers.flatMap(answer => Object.keys(answer.values)));
+  const problemEquations = extractEqualities(`${problemText}\n${solution.restatement}`).filter(equality => {
+    const variables = [...variablesOf(equality.left), ...variablesOf(equality.right)];
+    return variables.length > 0 && variables.every(name => answerVariables.has(name));
+  });
+  if (problemEquations.length === 0) return { verdict: 'unknown' as const, how: 'no equation to substitute into' };
+
+  const results = answers.map(answer => problemEquations.map(({ left, right }) => satisfies(left, right, answer)));
+  const failing = answers.filter((_answer, i) => results[i].includes(false));
+  if (failing.length === 0) {
+    return results.some(checks => checks.includes(null))
+      ? { verdict: 'unknown' as const, how: 'could not evaluate the original equation' }
+      : { verdict: 'holds' as const, how: 'every value satisfies the original equation' };
+  }
+  const shown = failing.map(answer => Object.entries(answer.values).map(([k, v]) => `${k} = ${v}`).join(', ')).join('; ');
+  return { verdict: 'fails' as const, how: `${shown} does not satisfy the original equation` };
+};
+
+const toConfidence = (finalVerdict: EqualityVerdict, steps: StepCheck[]): VerificationConfidence => {
+  const suspicious = steps.some(step => step.status === 'suspicious');
+  const verified = steps.some(step => step.status === 'verified');
+  if (finalVerdict === 'fails') return 'low';
+  if (finalVerdict === 'holds') return suspicious ? 'medium' : 'high';
+  if (suspicious) return 'low';
+  return verified ? 'medium' : 'unverified';
+};
+
+/**
+ * Local, model-free check of a solution: arithmetic and algebra in each step, and the
+ * final answer substituted back into the problem. Anything that can't be parsed is
+ * reported as unchecked rather than guessed at.
+ */
+export const verifySolution = (problemText: string, solution: StructuredSolution): VerificationReport => {
+  const answers = parseAnswerAssignments(solution.finalAnswer);
+
+  const steps: StepCheck[] = solution.steps.map((step, stepIndex) => {
+    const equalities = extractEqualities(step.expression ?? '');
+    if (equalities.length === 0) {
+      return { stepIndex, status: 'unchecked', detail: 'No checkable equality.' };
+    }
+    const results = equalities.map(equality => ({ equality, ...checkEquality(equality, answers) }));
+    const failed = results.find(result => result.verdict === 'fails');
+    if (failed) {
+      return { stepIndex, status: 'suspicious', detail: `${failed.equality.source}: ${failed.how}.` };
+    }
+    const held = results.filter(result => result.verdict === 'holds');
+    return held.length > 0
+      ? { stepIndex, status: 'verified', detail: `${held.length}/${results.length} equalities check out.` }
+      : { stepIndex, status: 'unchecked', detail: results[0].how };
+  });
+
+  const final = checkFinalAnswer(problemText, solution, answers);
+  const finalAnswer = {
+    status: final.verdict === 'holds' ? 'verified' : final.verdict === 'fails' ? 'suspicious' : 'unchecked',
+    detail: final.how,
+  } as const;
+
+  const confidence = toConfidence(final.verdict, steps);
+  const flagged = steps.filter(step => step.status === 'suspicious').length;
+  const summary =
+    confidence === 'unverified'
+      ? 'Nothing in this solution could be checked automatically.'
+      : `Final answer ${finalAnswer.status}; ${flagged} suspicious step${flagged === 1 ? '' : 's'}.`;
+
+  return { confidence, finalAnswer, steps, summary, checkedAt: Date.now() };
+};
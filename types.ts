@@ -4,22 +4,383 @@ export interface UploadedFile {
 }
 
 export interface GeneratedPage {
+  id: string; // stays with the page through regenerations and renumbering
   imageUrl: string;
   pageNumber: number;
+  sourceText: string; // text the page was rendered from
+  model: string; // model that produced imageUrl
+  skipped?: SkippedModel[]; // models that failed before `model` produced this page
+  attempts: number; // generation attempts spent on this page, including regenerations
+  fidelity?: PageFidelity; // how well the image reads back as sourceText; absent until checked
+}
+
+export interface DiffSegment {
+  kind: 'same' | 'missing' | 'extra'; // missing: intended but not read back; extra: read back but never intended
+  text: string;
+}
+
+export interface PageFidelity {
+  score: number; // 0 to 100
+  readText: string;
+  diff: DiffSegment[];
+}
+
+export interface GeneratedImage {
+  imageUrl: string;
+  model: string;
+  skipped?: SkippedModel[];
 }
 
 export enum ProcessingStep {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
+  AWAITING_TRANSCRIPTION_REVIEW = 'AWAITING_TRANSCRIPTION_REVIEW',
   SOLVING = 'SOLVING',
+  AWAITING_SOLUTION_REVIEW = 'AWAITING_SOLUTION_REVIEW',
   GENERATING_PAGES = 'GENERATING_PAGES',
+  CHECKING_FIDELITY = 'CHECKING_FIDELITY',
   VALIDATING = 'VALIDATING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
 }
 
+export type PageProgressStatus = 'queued' | 'writing' | 'rate-limited' | 'done' | 'failed';
+
+export interface PageProgress {
+  pageNumber: number;
+  status: PageProgressStatus;
+  retryAt?: number; // epoch ms a rate-limited page is retried at
+}
+
+/** What went wrong in a failed model call; see services/serviceErrors.ts. */
+export type ServiceErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety-blocked'
+  | 'model-unavailable'
+  | 'malformed-response'
+  | 'network'
+  | 'cancelled';
+
 export interface ProcessingState {
   step: ProcessingStep;
   message: string;
   progress: number; // 0 to 100
+  pages?: PageProgress[]; // per-page status while pages are being written
+  errorKind?: ServiceErrorKind; // set on ERROR when the failure was classified
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  reason?: string;
+}
+
+
+export interface SolutionStep {
+  explanation: string;
+  /** The math written out for this step, if any (e.g. "x^2 - 4x + 3 = 0"). */
+  expression?: string;
+}
+
+/**
+ * What the solver returns. Pagination into handwritten pages happens locally.
+ */
+export interface StructuredSolution {
+  restatement: string;
+  steps: SolutionStep[];
+  finalAnswer: string;
+  /** Sketches a student would draw alongside the working, e.g. "number line marking 1 and 3". */
+  diagramHints?: string[];
+}
+
+/**
+ * Page text parsed for handwriting: plain runs plus the constructs that are laid out
+ * in two dimensions on paper.
+ */
+export type MathNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'superscript'; body: MathNode[] }
+  | { kind: 'subscript'; body: MathNode[] }
+  | { kind: 'fraction'; numerator: MathNode[]; denominator: MathNode[] }
+  | { kind: 'root'; body: MathNode[]; degree?: MathNode[] }
+  | { kind: 'matrix'; rows: MathNode[][][]; delimiters: [string, string] } // rows of cells
+  | { kind: 'bigOperator'; symbol: string; lower: MathNode[]; upper: MathNode[] }; // Σ, ∫, lim with limits
+
+export type VerificationConfidence = 'high' | 'medium' | 'low' | 'unverified';
+
+export type CheckStatus = 'verified' | 'suspicious' | 'unchecked';
+
+export interface StepCheck {
+  stepIndex: number;
+  status: CheckStatus;
+  detail: string;
+}
+
+/**
+ * Outcome of the local algebra check on a structured solution.
+ */
+export interface VerificationReport {
+  confidence: VerificationConfidence;
+  finalAnswer: { status: CheckStatus; detail: string };
+  steps: StepCheck[];
+  summary: string;
+  checkedAt: number;
+}
+
+export interface StoredFile {
+  name: string;
+  type: string;
+  data: Blob;
+}
+
+/**
+ * A completed run as persisted in the local history (IndexedDB).
+ */
+export interface SolveRun {
+  id: string;
+  createdAt: number;
+  completedAt: number;
+  updatedAt: number;
+  questionImage: StoredFile;
+  handwritingImage: StoredFile;
+  transcription: string;
+  solution?: StructuredSolution; // absent on runs saved before structured solutions
+  verification?: VerificationReport;
+  solutionPages: string[];
+  pages: GeneratedPage[];
+  validationReason?: string;
+  layout?: PageLayoutOptions; // absent on runs saved before per-run layouts
+  models?: StepModels; // which model produced each text step, absent on runs saved before fallback chains
+  cost?: CostReport; // absent on runs saved before cost accounting and on mock runs
+  chat?: ChatTurn[]; // follow-up conversation, absent on runs that never opened the chat
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  revisedPages?: string[]; // a replacement solution the model offered, one string per page
+}
+
+/**
+ * What a chat turn is grounded on: the current run's problem and solution.
+ */
+export interface ChatContext {
+  transcription: string;
+  solutionPages: string[];
+}
+
+export interface ChatReply {
+  text: string;
+  revisedPages?: string[];
+}
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type PdfPageSize = 'a4' | 'letter' | 'custom';
+
+/** 'fit' letterboxes the whole page image; 'fill' covers the printable area and trims overflow. */
+export type PdfImageFit = 'fit' | 'fill';
+
+export type PdfImageFormat = 'png' | 'jpeg';
+
+export interface PdfExportSettings {
+  pageSize: PdfPageSize;
+  /** Millimetres, only used when pageSize is 'custom'. */
+  customWidth: number;
+  customHeight: number;
+  fit: PdfImageFit;
+  /** Millimetres of white space around each page image. */
+  margin: number;
+  imageFormat: PdfImageFormat;
+  /** JPEG quality in percent. */
+  jpegQuality: number;
+  /** Upper bound for the whole file in KB when exporting JPEG; 0 disables it. */
+  targetSizeKb: number;
+  coverPage: boolean;
+  author: string;
+  /** File name template; `{date}` and `{problem}` are substituted on export. */
+  fileName: string;
+}
+
+/** 'model' asks the image model for every page; 'local' draws pages on a canvas offline. */
+export type PageRenderer = 'model' | 'local';
+
+export type PaperStyle = 'ruled' | 'grid' | 'blank' | 'legal-pad';
+
+export type HandwritingFont = 'Caveat' | 'Patrick Hand' | 'Indie Flower' | 'Homemade Apple';
+
+export interface LocalRendererSettings {
+  font: HandwritingFont;
+  /** Degrees the letters lean to the right (negative leans left). */
+  slant: number;
+  /** Per-glyph size, rotation and position noise in percent. */
+  jitter: number;
+  /** How far the baseline drifts up and down, in percent of the line height. */
+  baselineWobble: number;
+  /** CSS hex colour, e.g. #1a2a6c. */
+  inkColor: string;
+  paper: PaperStyle;
+  /** Baseline-to-baseline distance in percent of the letter height. */
+  lineSpacing: number;
+}
+
+/** Look of a hand, measured from its samples and adjustable by the user. */
+export type StyleAttributes = Pick<LocalRendererSettings, 'inkColor' | 'slant' | 'paper' | 'lineSpacing'>;
+
+/**
+ * A named, reusable handwriting style: cropped samples plus the attributes read from them.
+ * Stored in IndexedDB and shareable as a JSON file.
+ */
+export interface StyleProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  samples: StoredFile[];
+  attributes: StyleAttributes;
+}
+
+export type MarginSize = 'narrow' | 'normal' | 'wide';
+
+/**
+ * Header block written at the top of the first page; later pages repeat the name and
+ * "Question N (continued)". Empty fields are left out.
+ */
+export interface PageHeader {
+  name: string;
+  date: string;
+  questionNumber: string;
+}
+
+/**
+ * Layout chosen for one run and applied to every page of it, whichever renderer draws them.
+ */
+export interface PageLayoutOptions {
+  /** 'reference' keeps the paper of the handwriting reference (or the renderer setting). */
+  paper: PaperStyle | 'reference';
+  header: PageHeader;
+  margin: MarginSize;
+  /** Overrides the reference/profile ink colour when set. CSS hex colour. */
+  inkColor: string | null;
+  pageNumbers: boolean;
+}
+
+/** A pipeline step that calls a model; `AppSettings.models` holds its primary model. */
+export type ModelStep = 'transcription' | 'solver' | 'image' | 'validation' | 'ocr' | 'chat';
+
+/**
+ * Models a step moves on to, in order, when the one before fails with one of the
+ * `advanceOn` error kinds. Any other error surfaces straight away.
+ */
+export interface FallbackChain {
+  models: string[];
+  advanceOn: ServiceErrorKind[];
+}
+
+/** A model that was tried and passed over for the next one in its chain. */
+export interface SkippedModel {
+  model: string;
+  kind: ServiceErrorKind;
+}
+
+/** The model that produced a step's output and the ones that failed before it. */
+export interface ModelUsage {
+  model: string;
+  skipped: SkippedModel[];
+}
+
+export type StepModels = Partial<Record<ModelStep, ModelUsage>>;
+
+/**
+ * A model result kept in the local response cache (IndexedDB), addressed by a hash of
+ * the request that produced it.
+ */
+export interface CachedResponse {
+  key: string; // SHA-256 of the model, prompt, config and input bytes
+  step: ModelStep;
+  model: string;
+  value: unknown; // what the service made of the response: text, a parsed solution or an image data URL
+  size: number; // approximate bytes
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+/** What one model call consumed, read from the response's usage metadata. */
+export interface CallUsage {
+  step: ModelStep;
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // text output only; images are counted in `images`
+  thinkingTokens: number;
+  images: number;
+  retries: number; // rate-limited tries before this one went through
+}
+
+/** USD prices for one model. Thinking tokens are billed as output. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  images: number;
+  retries: number;
+  cost: number; // estimated USD
+}
+
+/**
+ * Estimated cost of a run, in total and per step.
+ */
+export interface CostReport extends UsageTotals {
+  byStep: Partial<Record<ModelStep, UsageTotals>>;
+  /** Models used without an entry in the price table; their calls are counted at no cost. */
+  unpricedModels: string[];
+}
+
+/**
+ * User-tunable generation settings, persisted in localStorage.
+ */
+export interface AppSettings {
+  models: Record<ModelStep, string>;
+  fallbacks: Record<ModelStep, FallbackChain>;
+  thinkingBudget: {
+    solver: number;
+    /** Used by every solver model after the primary. */
+    solverFallback: number;
+  };
+  imageSize: ImageSize;
+  aspectRatio: AspectRatio;
+  maxAttempts: number;
+  /** Line budget the paginator fills each handwritten page up to. */
+  linesPerPage: number;
+  /** Pages that read back below this score (0–100) are regenerated. */
+  fidelityThreshold: number;
+  /** Extra generations allowed per page when chasing the fidelity threshold. */
+  maxPageRetries: number;
+  /** Pages of one run generated at the same time. */
+  pageConcurrency: number;
+  /** Times a rate-limited (429) request is retried before the error surfaces. */
+  rateLimitRetries: number;
+  /** Price table keyed by model name, used for cost estimates. */
+  pricing: Record<string, ModelPrice>;
+  /** Estimated USD a calendar month may spend before new runs are blocked; 0 disables the cap. */
+  monthlySpendingCap: number;
+  responseCache: {
+    /** Reuse transcriptions and solutions of identical requests. */
+    enabled: boolean;
+    /** Also reuse page images for identical text, layout and handwriting reference. */
+    pageImages: boolean;
+  };
+  pageRenderer: PageRenderer;
+  localRenderer: LocalRendererSettings;
+  pdfExport: PdfExportSettings;
 }
\ No newline at end of file
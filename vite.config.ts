@@ -13,6 +13,7 @@ export default defineConfig({
   },
   define: {
     // Prevents 'process is not defined' error in browser when checking process.env.API_KEY
-    'process.env': {}
+    // MODEL_PROVIDER is forwarded so `MODEL_PROVIDER=mock npm run dev` starts offline
+    'process.env': { MODEL_PROVIDER: process.env.MODEL_PROVIDER }
   }
 });
\ No newline at end of file